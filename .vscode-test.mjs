@@ -2,4 +2,5 @@ import { defineConfig } from '@vscode/test-cli';
 
 export default defineConfig({
 	files: 'out/test/**/*.test.js',
+	workspaceFolder: './src/test/fixtures/workspace',
 });
@@ -1,6 +1,7 @@
 /* eslint-disable no-console */
 import * as vscode from "vscode";
 import { registerSummaryToolCommands } from "./tools/summary-tool/commands";
+import { registerSummaryToolViews } from "./tools/summary-tool/views";
 
 // Extension activation
 export function activate(context: vscode.ExtensionContext) {
@@ -10,6 +11,9 @@ export function activate(context: vscode.ExtensionContext) {
     // Register summary tool commands
     registerSummaryToolCommands(context);
 
+    // Register summary tool views
+    registerSummaryToolViews(context);
+
     // Show welcome message on first activation
     const isFirstActivation = context.globalState.get(
       "build-ai-context.firstActivation",
@@ -0,0 +1,63 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { BinaryDetector } from "../tools/summary-tool/services/binaryDetector";
+
+suite("BinaryDetector", () => {
+  let folder: string;
+
+  const detect = (content: Buffer | string) => {
+    const filePath = path.join(folder, "sample");
+    fs.writeFileSync(filePath, content);
+    return BinaryDetector.detect(filePath);
+  };
+
+  setup(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), "ai-context-binary-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  test("text files are not binary, in any script", async () => {
+    assert.strictEqual(await detect("const a = 1;\n"), null);
+    assert.strictEqual(await detect("Grüße, 日本語, emoji 🎉\n"), null);
+    assert.strictEqual(await detect(""), null);
+  });
+
+  test("text starting like a printable signature stays text", async () => {
+    assert.strictEqual(await detect("BM is a text file too\n"), null);
+    assert.strictEqual(await detect("%PDF notes\n"), null);
+  });
+
+  test("PNG images are described with their dimensions", async () => {
+    const header = Buffer.alloc(24);
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+    header.writeUInt32BE(640, 16);
+    header.writeUInt32BE(480, 20);
+
+    const info = await detect(header);
+    assert.deepStrictEqual(info, {
+      type: "PNG image",
+      size: 24,
+      dimensions: { width: 640, height: 480 },
+    });
+    assert.strictEqual(
+      BinaryDetector.formatPlaceholder(info!),
+      "[Binary file omitted: PNG image, 24.0 B, 640x480]\n"
+    );
+  });
+
+  test("NUL bytes or invalid UTF-8 mark unknown binary data", async () => {
+    assert.strictEqual(
+      (await detect(Buffer.from("abc\0def")))?.type,
+      "binary data"
+    );
+    assert.strictEqual(
+      (await detect(Buffer.from([0xc3, 0x28, 0xff, 0xfe, 0x41])))?.type,
+      "binary data"
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CACHE } from "../tools/summary-tool/constants";
+import { ContentCache } from "../tools/summary-tool/services/contentCache";
+
+suite("ContentCache", () => {
+  const cache = ContentCache.getInstance();
+  let storagePath: string;
+  let folder: string;
+
+  const hashOf = (filePath: string) =>
+    cache.getFileHash(filePath, fs.statSync(filePath), async () =>
+      fs.readFileSync(filePath, "utf8")
+    );
+
+  setup(() => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), "ai-context-cache-"));
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), "ai-context-files-"));
+    cache.setStoragePath(storagePath);
+    cache.resetStats();
+  });
+
+  teardown(() => {
+    cache.setStoragePath(undefined);
+    fs.rmSync(storagePath, { recursive: true, force: true });
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  test("file hashes are reused until mtime or size change", async () => {
+    const filePath = path.join(folder, "a.txt");
+    fs.writeFileSync(filePath, "one");
+
+    assert.strictEqual(await hashOf(filePath), "one");
+    assert.strictEqual(await hashOf(filePath), "one");
+
+    fs.writeFileSync(filePath, "two");
+    fs.utimesSync(filePath, new Date(), new Date(Date.now() + 10_000));
+    assert.strictEqual(await hashOf(filePath), "two");
+    assert.deepStrictEqual(cache.getStats().files, { hits: 1, misses: 2 });
+  });
+
+  test("a directory is listed again once its mtime changes", async () => {
+    fs.writeFileSync(path.join(folder, "a.txt"), "");
+    const before = await cache.readDirectory(folder);
+
+    fs.writeFileSync(path.join(folder, "b.txt"), "");
+    fs.utimesSync(folder, new Date(), new Date(Date.now() + 10_000));
+    const after = await cache.readDirectory(folder);
+
+    assert.deepStrictEqual(
+      before.map((entry) => entry.name),
+      ["a.txt"]
+    );
+    assert.deepStrictEqual(after.map((entry) => entry.name).sort(), [
+      "a.txt",
+      "b.txt",
+    ]);
+    assert.deepStrictEqual(cache.getStats().directories, {
+      hits: 0,
+      misses: 2,
+    });
+  });
+
+  test("a saved cache is loaded by the next run", async () => {
+    const filePath = path.join(folder, "a.txt");
+    fs.writeFileSync(filePath, "one");
+    await hashOf(filePath);
+    cache.getTokenCount("hello", "cl100k", () => ({
+      tokens: 1,
+      method: "cl100k",
+    }));
+    await cache.save();
+
+    cache.setStoragePath(storagePath);
+    cache.resetStats();
+    await hashOf(filePath);
+    const counted = cache.getTokenCount("hello", "cl100k", () => {
+      throw new Error("counted again");
+    });
+
+    assert.deepStrictEqual(counted, { tokens: 1, method: "cl100k" });
+    assert.deepStrictEqual(cache.getStats().files, { hits: 1, misses: 0 });
+  });
+
+  test("a corrupt or outdated cache file is replaced", async () => {
+    const cachePath = path.join(storagePath, CACHE.FILE_NAME);
+    const filePath = path.join(folder, "a.txt");
+    fs.writeFileSync(filePath, "one");
+
+    for (const content of [
+      "{ not json",
+      JSON.stringify({ version: CACHE.VERSION - 1, files: {} }),
+    ]) {
+      fs.writeFileSync(cachePath, content);
+      cache.setStoragePath(storagePath);
+      cache.resetStats();
+
+      assert.strictEqual(await hashOf(filePath), "one");
+      assert.deepStrictEqual(cache.getStats().files, { hits: 0, misses: 1 });
+
+      await cache.save();
+      assert.strictEqual(
+        JSON.parse(fs.readFileSync(cachePath, "utf8")).version,
+        CACHE.VERSION
+      );
+    }
+  });
+});
@@ -0,0 +1,57 @@
+import * as assert from "assert";
+import { ContentCompressor } from "../tools/summary-tool/services/contentCompressor";
+
+suite("ContentCompressor", () => {
+  const compressor = new ContentCompressor({
+    passes: ["comments"],
+    keepDocComments: false,
+  });
+
+  test("strings nested in template substitutions do not end the template", () => {
+    const code =
+      'const u = `${secure ? `https://a.com` : "x"}/path`; // base URL\n' +
+      "const v = `${{ a: `}` }.a}//`;\n";
+
+    assert.strictEqual(
+      compressor.compress(code, "typescript"),
+      'const u = `${secure ? `https://a.com` : "x"}/path`;\n' +
+        "const v = `${{ a: `}` }.a}//`;\n"
+    );
+  });
+
+  test("JSX text is left alone", () => {
+    const code = "const p = <p>see http://example.com now</p>;\n";
+
+    assert.strictEqual(compressor.compress(code, "tsx"), code);
+    assert.strictEqual(compressor.compress(code, "jsx"), code);
+  });
+
+  test("PHP attributes are not comments", () => {
+    const code =
+      "<?php\n#[Route('/api')]\nfunction index() {} # handler\n# note\n";
+
+    assert.strictEqual(
+      compressor.compress(code, "php"),
+      "<?php\n#[Route('/api')]\nfunction index() {}\n"
+    );
+  });
+
+  test("Kotlin string templates hold nested strings", () => {
+    const code = 'val s = "${if (a) "//" else "b"}" // label\n';
+
+    assert.strictEqual(
+      compressor.compress(code, "kotlin"),
+      'val s = "${if (a) "//" else "b"}"\n'
+    );
+  });
+
+  test("comments in plain code are still removed", () => {
+    assert.strictEqual(
+      compressor.compress(
+        "const a = 1; // one\n/* two */\nconst b = 2;\n",
+        "typescript"
+      ),
+      "const a = 1;\nconst b = 2;\n"
+    );
+  });
+});
@@ -0,0 +1,169 @@
+import * as assert from "assert";
+import { ExclusionMatcher } from "../tools/summary-tool/services/exclusionMatcher";
+
+suite("ExclusionMatcher", () => {
+  const defaults = ["-node_modules", "-.git", "-*.log", "-dist"];
+
+  test("excludes still apply inside a folder included after them", () => {
+    const matcher = new ExclusionMatcher([...defaults, "+frontend"]);
+
+    for (const itemPath of [
+      "frontend/node_modules",
+      "frontend/node_modules/react/index.js",
+      "frontend/app.log",
+      "frontend/dist/bundle.js",
+    ]) {
+      assert.strictEqual(
+        matcher.shouldExclude(itemPath).shouldExclude,
+        true,
+        itemPath
+      );
+      assert.strictEqual(
+        matcher.shouldCollapse(itemPath).shouldExclude,
+        true,
+        itemPath
+      );
+    }
+
+    assert.deepStrictEqual(matcher.shouldExclude("frontend/node_modules"), {
+      shouldExclude: true,
+      matchedPattern: "-node_modules",
+    });
+    assert.strictEqual(
+      matcher.shouldExclude("frontend/src/app.ts").shouldExclude,
+      false
+    );
+    assert.strictEqual(matcher.shouldExclude("frontend").shouldExclude, false);
+  });
+
+  test("a more specific include re-adds a path", () => {
+    const matcher = new ExclusionMatcher([
+      "+src",
+      "-src/generated",
+      "+src/generated/keep.ts",
+      "+frontend/node_modules/react",
+      ...defaults,
+    ]);
+
+    assert.strictEqual(
+      matcher.shouldExclude("src/generated/other.ts").shouldExclude,
+      true
+    );
+    assert.strictEqual(
+      matcher.shouldExclude("src/generated/keep.ts").shouldExclude,
+      false
+    );
+    assert.strictEqual(
+      matcher.shouldExclude("frontend/node_modules/react/index.js")
+        .shouldExclude,
+      false
+    );
+    assert.strictEqual(
+      matcher.shouldExclude("frontend/node_modules/vue/index.js").shouldExclude,
+      true
+    );
+  });
+
+  test("an exception inside an excluded glob is kept", () => {
+    const matcher = new ExclusionMatcher([
+      "+tests",
+      "-tests/**",
+      "+tests/fixtures/schema.json",
+    ]);
+
+    assert.strictEqual(
+      matcher.shouldExclude("tests/fixtures/schema.json").shouldExclude,
+      false
+    );
+    assert.strictEqual(
+      matcher.shouldExclude("tests/fixtures/other.json").shouldExclude,
+      true
+    );
+  });
+
+  test("the last rule matching the same level wins", () => {
+    assert.strictEqual(
+      new ExclusionMatcher(["-src", "+src"]).shouldExclude("src/a.ts")
+        .shouldExclude,
+      false
+    );
+    assert.strictEqual(
+      new ExclusionMatcher(["+src", "-src"]).shouldExclude("src/a.ts")
+        .shouldExclude,
+      true
+    );
+  });
+
+  test("glob includes do not re-add paths inside an excluded folder", () => {
+    const matcher = new ExclusionMatcher([...defaults, "+**/*.js"]);
+
+    assert.strictEqual(
+      matcher.shouldExclude("node_modules/x/index.js").shouldExclude,
+      true
+    );
+    assert.strictEqual(matcher.shouldExclude("src/a.js").shouldExclude, false);
+  });
+
+  test("collapse rules only affect the structure", () => {
+    const matcher = new ExclusionMatcher(["+docs", "!docs/api"]);
+
+    assert.strictEqual(matcher.shouldCollapse("docs/api").shouldExclude, true);
+    assert.strictEqual(
+      matcher.shouldExclude("docs/api/index.md").shouldExclude,
+      false
+    );
+  });
+
+  test("getDecisiveMatch reports the level a rule matched", () => {
+    const decisive = new ExclusionMatcher([
+      ...defaults,
+      "+frontend",
+    ]).getDecisiveMatch("frontend/node_modules/react/index.js");
+
+    assert.deepStrictEqual(decisive, {
+      rule: "-node_modules",
+      action: "exclude",
+      matchType: "basename",
+      matchedPath: "frontend/node_modules",
+      isAncestor: true,
+    });
+  });
+
+  test("rules limited to a workspace folder match only that folder", () => {
+    const matcher = new ExclusionMatcher(["+backend:src", "-backend:src/gen"]);
+
+    assert.strictEqual(
+      matcher.shouldExclude("backend:src/gen/a.ts").shouldExclude,
+      true
+    );
+    assert.strictEqual(
+      matcher.shouldExclude("frontend:src/gen/a.ts").shouldExclude,
+      false
+    );
+  });
+
+  test("a trailing slash limits a rule to folders", () => {
+    const matcher = new ExclusionMatcher(["+src", "-build/", "-src/gen/"]);
+
+    for (const itemPath of ["build/out.js", "src/build/a.ts", "src/gen/a.ts"]) {
+      assert.strictEqual(
+        matcher.shouldExclude(itemPath, false).shouldExclude,
+        true,
+        itemPath
+      );
+    }
+    assert.strictEqual(
+      matcher.shouldExclude("build", true).shouldExclude,
+      true
+    );
+    assert.strictEqual(
+      matcher.shouldExclude("src/build", false).shouldExclude,
+      false
+    );
+    assert.strictEqual(matcher.shouldExclude("src/build").shouldExclude, true);
+  });
+
+  test("a rule of only a slash is ignored", () => {
+    assert.strictEqual(ExclusionMatcher.parseRule("-/"), null);
+  });
+});
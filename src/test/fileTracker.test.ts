@@ -0,0 +1,178 @@
+import * as assert from "assert";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { OUTPUT_FILES } from "../tools/summary-tool/constants";
+import { CopyManifest } from "../tools/summary-tool/models/types";
+import { FileTracker } from "../tools/summary-tool/services/fileTracker";
+
+// The workspace the tests are run in
+const WORKSPACE = path.resolve(__dirname, "../../src/test/fixtures/workspace");
+
+suite("FileTracker", () => {
+  const workspaceRoots = [{ name: "workspace", path: WORKSPACE }];
+  let targetPath: string;
+
+  setup(() => {
+    targetPath = fs.mkdtempSync(path.join(os.tmpdir(), "ai-context-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(targetPath, { recursive: true, force: true });
+  });
+
+  test("a flat rerun overwrites the earlier copy instead of numbering a new one", async () => {
+    const copy = () =>
+      new FileTracker(["+src", "+docs"]).trackAndCopyFiles({
+        workspaceRoots,
+        targetPath,
+      });
+
+    await copy();
+    const copies = fs.readdirSync(targetPath).sort();
+    fs.writeFileSync(path.join(targetPath, "notes_1.md"), "edited\n");
+    const result = await copy();
+
+    assert.deepStrictEqual(fs.readdirSync(targetPath).sort(), copies);
+    assert.strictEqual(result.copiedFiles, 1);
+    assert.strictEqual(result.skippedFiles, 2);
+    assert.strictEqual(
+      fs.readFileSync(path.join(targetPath, "notes_1.md"), "utf8"),
+      "# Docs notes\n"
+    );
+  });
+
+  const readManifest = (): CopyManifest =>
+    JSON.parse(
+      fs.readFileSync(path.join(targetPath, OUTPUT_FILES.MANIFEST), "utf8")
+    );
+
+  const sha256 = (filePath: string) =>
+    crypto.createHash("sha256").update(fs.readFileSync(filePath)).digest("hex");
+
+  test("the mirror layout recreates the workspace tree", async () => {
+    await new FileTracker(["+src", "+docs"]).trackAndCopyFiles({
+      workspaceRoots,
+      targetPath,
+      copyLayout: "mirror",
+    });
+
+    const manifest = readManifest();
+    assert.strictEqual(manifest.layout, "mirror");
+    assert.deepStrictEqual(
+      manifest.files.map((entry) => [entry.originalPath, entry.outputPath]),
+      ["src/main.py", "src/notes.md", "docs/notes.md"].map((file) => [
+        path.normalize(file),
+        file,
+      ])
+    );
+    assert.strictEqual(
+      fs.readFileSync(path.join(targetPath, "docs/notes.md"), "utf8"),
+      "# Docs notes\n"
+    );
+  });
+
+  test("the manifest maps flat copies back to their originals", async () => {
+    await new FileTracker(["+src", "+docs"]).trackAndCopyFiles({
+      workspaceRoots,
+      targetPath,
+    });
+
+    const entry = readManifest().files.find(
+      (file) => file.outputPath === "notes_1.md"
+    );
+    const original = path.join(WORKSPACE, "docs/notes.md");
+    assert.deepStrictEqual(entry, {
+      outputPath: "notes_1.md",
+      originalPath: path.normalize("docs/notes.md"),
+      size: fs.statSync(original).size,
+      sha256: sha256(original),
+      outputSize: fs.statSync(original).size,
+      outputSha256: sha256(original),
+    });
+  });
+
+  test("the manifest describes the redacted copy that was written", async () => {
+    await new FileTracker(["+src/main.py"]).trackAndCopyFiles({
+      workspaceRoots,
+      targetPath,
+      redaction: { mode: "redact", detectors: [], patterns: ["hello"] },
+    });
+
+    const [entry] = readManifest().files;
+    const copy = path.join(targetPath, "main.py");
+    assert.ok(!fs.readFileSync(copy, "utf8").includes("hello"));
+    assert.strictEqual(entry.redactions, 1);
+    assert.strictEqual(entry.outputSize, fs.statSync(copy).size);
+    assert.strictEqual(entry.outputSha256, sha256(copy));
+    assert.notStrictEqual(entry.outputSha256, entry.sha256);
+  });
+
+  test("binary files are not copied while redaction is on", async () => {
+    const folder = fs.mkdtempSync(path.join(os.tmpdir(), "ai-context-src-"));
+    try {
+      fs.writeFileSync(path.join(folder, "data.bin"), "key=hello\0\x01");
+      fs.writeFileSync(path.join(folder, "text.txt"), "plain\n");
+
+      const result = await new FileTracker([`+${folder}`]).trackAndCopyFiles({
+        workspaceRoots,
+        targetPath,
+        redaction: { mode: "redact", detectors: [], patterns: ["hello"] },
+      });
+
+      assert.strictEqual(result.skippedFiles, 1);
+      assert.ok(!fs.existsSync(path.join(targetPath, "data.bin")));
+      assert.ok(fs.existsSync(path.join(targetPath, "text.txt")));
+    } finally {
+      fs.rmSync(folder, { recursive: true, force: true });
+    }
+  });
+
+  test("a cancel after the last file keeps the finished output", async () => {
+    const signal = { isCancellationRequested: false };
+    const tracker = new FileTracker(["+src"]);
+    tracker.setCancellation(signal);
+    // Cancel once every file has been written
+    tracker.setProgress({
+      report: ({ message }) => {
+        if (message?.endsWith("complete!")) {
+          signal.isCancellationRequested = true;
+        }
+      },
+    });
+
+    const outputPath = path.join(targetPath, "combined_files.txt");
+    const result = await tracker.trackAndWriteToSingleFile({
+      workspaceRoots,
+      targetPath: outputPath,
+    });
+
+    assert.strictEqual(result.cancelled, false);
+    assert.strictEqual(result.processedFiles, 2);
+    assert.ok(fs.existsSync(outputPath));
+  });
+
+  test("a cancel before the last file removes the partial output", async () => {
+    const signal = { isCancellationRequested: false };
+    const tracker = new FileTracker(["+src"]);
+    tracker.setCancellation(signal);
+    tracker.setProgress({
+      report: ({ message }) => {
+        if (message?.startsWith("Processing:")) {
+          signal.isCancellationRequested = true;
+        }
+      },
+    });
+
+    const outputPath = path.join(targetPath, "combined_files.txt");
+    const result = await tracker.trackAndWriteToSingleFile({
+      workspaceRoots,
+      targetPath: outputPath,
+    });
+
+    assert.strictEqual(result.cancelled, true);
+    assert.strictEqual(result.processedFiles, 1);
+    assert.ok(!fs.existsSync(outputPath));
+  });
+});
@@ -0,0 +1,79 @@
+import * as assert from "assert";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { GitChangeTracker } from "../tools/summary-tool/services/gitChangeTracker";
+
+suite("GitChangeTracker", () => {
+  test("parseSource reads kinds with and without refs", () => {
+    assert.deepStrictEqual(GitChangeTracker.parseSource("staged"), {
+      kind: "staged",
+    });
+    assert.deepStrictEqual(GitChangeTracker.parseSource(" untracked "), {
+      kind: "untracked",
+    });
+    assert.deepStrictEqual(GitChangeTracker.parseSource("since:HEAD~3"), {
+      kind: "since",
+      ref: "HEAD~3",
+    });
+    assert.deepStrictEqual(
+      GitChangeTracker.parseSource("merge-base: origin/main"),
+      { kind: "merge-base", ref: "origin/main" }
+    );
+  });
+
+  test("parseSource rejects unknown kinds, missing refs and option-like refs", () => {
+    for (const source of [
+      "",
+      "modified",
+      "since",
+      "merge-base:",
+      "staged:HEAD",
+      "since:--output=x",
+    ]) {
+      assert.strictEqual(
+        GitChangeTracker.parseSource(source),
+        undefined,
+        source
+      );
+    }
+  });
+
+  test("sources are formatted and described", () => {
+    assert.strictEqual(
+      GitChangeTracker.formatSource({ kind: "merge-base", ref: "main" }),
+      "merge-base:main"
+    );
+    assert.strictEqual(
+      GitChangeTracker.describeSource("merge-base:main"),
+      "Changed since merge-base with main"
+    );
+    assert.strictEqual(GitChangeTracker.describeSource("bogus"), "bogus");
+  });
+
+  test("staged and untracked files are listed from the repository", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "ai-context-git-"));
+    try {
+      const git = (...args: string[]) =>
+        execFileSync("git", args, { cwd: root, stdio: "ignore" });
+      git("init", "-q");
+      fs.writeFileSync(path.join(root, "staged.txt"), "a");
+      fs.writeFileSync(path.join(root, "new.txt"), "b");
+      git("add", "staged.txt");
+
+      const tracker = new GitChangeTracker();
+      const roots = [{ name: "repo", path: root }];
+      const listed = async (source: string) =>
+        (await tracker.getChangedFiles(roots, source)).map((item) =>
+          path.basename(item.path)
+        );
+
+      assert.deepStrictEqual(await listed("staged"), ["staged.txt"]);
+      assert.deepStrictEqual(await listed("untracked"), ["new.txt"]);
+      await assert.rejects(listed("nope"), /Invalid git change source/);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,126 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { GitignoreMatcher } from "../tools/summary-tool/services/gitignoreMatcher";
+
+suite("GitignoreMatcher", () => {
+  let root: string;
+
+  const write = (relativePath: string, content: string) => {
+    const filePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "ai-context-gitignore-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("parse reads flags and skips comments and blank lines", () => {
+    const rules = GitignoreMatcher.parse(
+      "# comment\n\n!keep.log\nbuild/\n/root.txt\n\\#hash\n",
+      "",
+      ".gitignore"
+    );
+
+    assert.deepStrictEqual(
+      rules.map(({ pattern, negated, directoryOnly }) => ({
+        pattern,
+        negated,
+        directoryOnly,
+      })),
+      [
+        { pattern: "!keep.log", negated: true, directoryOnly: false },
+        { pattern: "build/", negated: false, directoryOnly: true },
+        { pattern: "/root.txt", negated: false, directoryOnly: false },
+        { pattern: "\\#hash", negated: false, directoryOnly: false },
+      ]
+    );
+    assert.ok(rules[2].regex.test("root.txt"));
+    assert.ok(!rules[2].regex.test("sub/root.txt"));
+    assert.ok(rules[3].regex.test("sub/#hash"));
+  });
+
+  test("negation re-includes a file and the last rule wins", async () => {
+    write(".gitignore", "*.log\n!keep.log\n");
+    const matcher = new GitignoreMatcher([root]);
+
+    assert.strictEqual(
+      await matcher.isIgnored(path.join(root, "app.log"), false),
+      true
+    );
+    assert.strictEqual(
+      await matcher.isIgnored(path.join(root, "logs/keep.log"), false),
+      false
+    );
+  });
+
+  test("directory-only patterns skip files of the same name", async () => {
+    write(".gitignore", "build/\n");
+    const matcher = new GitignoreMatcher([root]);
+
+    assert.strictEqual(
+      await matcher.isIgnored(path.join(root, "build"), true),
+      true
+    );
+    assert.strictEqual(
+      await matcher.isIgnored(path.join(root, "src/build"), false),
+      false
+    );
+    assert.strictEqual(
+      await matcher.isIgnored(path.join(root, "build/out.js"), false),
+      true
+    );
+  });
+
+  test("files inside an ignored directory cannot be re-included", async () => {
+    write(".gitignore", "dist/\n!dist/keep.js\n");
+    const matcher = new GitignoreMatcher([root]);
+
+    assert.strictEqual(
+      await matcher.isIgnored(path.join(root, "dist/keep.js"), false),
+      true
+    );
+  });
+
+  test("nested ignore files apply below their folder and override outer ones", async () => {
+    write(".gitignore", "*.tmp\n");
+    write("pkg/.gitignore", "!important.tmp\n/local.txt\n");
+    const matcher = new GitignoreMatcher([root]);
+
+    assert.strictEqual(
+      await matcher.isIgnored(path.join(root, "pkg/important.tmp"), false),
+      false
+    );
+    assert.strictEqual(
+      await matcher.isIgnored(path.join(root, "important.tmp"), false),
+      true
+    );
+    assert.strictEqual(
+      await matcher.isIgnored(path.join(root, "pkg/local.txt"), false),
+      true
+    );
+    assert.strictEqual(
+      await matcher.isIgnored(path.join(root, "pkg/sub/local.txt"), false),
+      false
+    );
+  });
+
+  test("paths outside the roots and .git are handled", async () => {
+    const matcher = new GitignoreMatcher([root]);
+
+    assert.strictEqual(
+      await matcher.isIgnored(path.join(root, ".git/config"), false),
+      true
+    );
+    assert.strictEqual(
+      await matcher.isIgnored(path.join(os.tmpdir(), "elsewhere.log"), false),
+      false
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import * as assert from "assert";
+import { OutlineGenerator } from "../tools/summary-tool/services/outlineGenerator";
+
+suite("OutlineGenerator", () => {
+  const generator = new OutlineGenerator();
+
+  test("TypeScript keeps imports, signatures, types and doc comments", async () => {
+    const code =
+      'import * as fs from "fs";\n\n' +
+      "/** Adds numbers */\n" +
+      "export function add(a: number, b: number): number {\n" +
+      "  const sum = a + b;\n" +
+      "  return sum;\n" +
+      "}\n\n" +
+      "export interface Point {\n  x: number;\n  y: number;\n}\n\n" +
+      "export class Store {\n" +
+      "  private items: string[] = [];\n\n" +
+      "  /** Adds an item */\n" +
+      "  public add(item: string): void {\n" +
+      "    this.items.push(item);\n" +
+      "  }\n" +
+      "}\n\n" +
+      "export const double = (n: number) => {\n  return n * 2;\n};\n";
+
+    assert.strictEqual(
+      await generator.generate("src/store.ts", code),
+      'import * as fs from "fs";\n\n' +
+        "/** Adds numbers */\n" +
+        "export function add(a: number, b: number): number { … }\n\n" +
+        "export interface Point {\n  x: number;\n  y: number;\n}\n\n" +
+        "export class Store {\n" +
+        "  /** Adds an item */\n" +
+        "  public add(item: string): void { … }\n" +
+        "}\n\n" +
+        "export const double = (n: number) => { … };\n"
+    );
+  });
+
+  test("JSX bodies are replaced as well", async () => {
+    assert.strictEqual(
+      await generator.generate(
+        "App.jsx",
+        "export function App() { return <div>hi</div>; }\n"
+      ),
+      "export function App() { … }\n"
+    );
+  });
+
+  test("the last matching outline entry decides the detail level", () => {
+    const matcher = OutlineGenerator.createLevelMatcher([
+      "src/**/*.ts",
+      "-src/main.ts",
+    ]);
+
+    assert.strictEqual(
+      OutlineGenerator.getDetailLevel(matcher, "src/lib/a.ts"),
+      "outline"
+    );
+    assert.strictEqual(
+      OutlineGenerator.getDetailLevel(matcher, "src/main.ts"),
+      "full"
+    );
+    assert.strictEqual(
+      OutlineGenerator.getDetailLevel(matcher, "README.md"),
+      "full"
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import * as assert from "assert";
+import { OutputFormatter } from "../tools/summary-tool/services/outputFormatter";
+
+suite("OutputFormatter", () => {
+  test("fences are longer than any backtick run in the content", () => {
+    assert.strictEqual(
+      OutputFormatter.fenceCodeBlock("const a = `x`;", "typescript"),
+      "```typescript\nconst a = `x`;\n```"
+    );
+    assert.strictEqual(
+      OutputFormatter.fenceCodeBlock("```js\nx\n```\n", "markdown"),
+      "````markdown\n```js\nx\n```\n````"
+    );
+    assert.strictEqual(
+      OutputFormatter.fenceCodeBlock("a ````` b", ""),
+      "``````\na ````` b\n``````"
+    );
+  });
+
+  test("markdown files are headed by their path and tagged with their language", () => {
+    const formatter = new OutputFormatter("markdown");
+
+    assert.strictEqual(
+      formatter.formatFile("src/app.py", "print(1)\n"),
+      "## src/app.py\n\n```python\nprint(1)\n```"
+    );
+    assert.strictEqual(
+      formatter.formatFile("Dockerfile", "FROM node\n"),
+      "## Dockerfile\n\n```dockerfile\nFROM node\n```"
+    );
+    assert.strictEqual(OutputFormatter.getLanguage("notes.unknown"), "");
+    assert.strictEqual(formatter.getOutputFileName(), "combined_files.md");
+  });
+
+  test("CDATA sections are split around ]]>", () => {
+    assert.strictEqual(
+      OutputFormatter.wrapCData("a]]>b"),
+      "<![CDATA[a]]]]><![CDATA[>b]]>"
+    );
+    assert.strictEqual(OutputFormatter.wrapCData("x[y]]"), "<![CDATA[x[y]]]]>");
+  });
+
+  test("XML documents carry escaped attributes and CDATA content", () => {
+    const formatter = new OutputFormatter("xml");
+
+    assert.strictEqual(
+      formatter.formatFile('a&"b".ts', "if (a]]>b) {}\n", 3),
+      '<document index="3" path="a&amp;&quot;b&quot;.ts" language="typescript" size="14" lines="1">\n' +
+        "<source>a&amp;&quot;b&quot;.ts</source>\n" +
+        "<document_content>\n" +
+        "<![CDATA[if (a]]]]><![CDATA[>b) {}\n]]>\n" +
+        "</document_content>\n" +
+        "</document>"
+    );
+    assert.strictEqual(
+      formatter.formatPreamble("root\n", "text"),
+      "<documents>\n<folder_structure>\n<![CDATA[root\n]]>\n</folder_structure>\n"
+    );
+    assert.strictEqual(formatter.formatEpilogue(), "</documents>\n");
+  });
+});
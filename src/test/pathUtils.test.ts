@@ -0,0 +1,47 @@
+import * as assert from "assert";
+import { PathUtils } from "../tools/summary-tool/utils/pathUtils";
+
+suite("PathUtils", () => {
+  test("parseQualifiedPath splits folder:path", () => {
+    assert.deepStrictEqual(PathUtils.parseQualifiedPath("backend:src/app.ts"), {
+      folder: "backend",
+      path: "src/app.ts",
+    });
+    assert.deepStrictEqual(PathUtils.parseQualifiedPath("my app:README.md"), {
+      folder: "my app",
+      path: "README.md",
+    });
+  });
+
+  test("parseQualifiedPath leaves paths without a folder alone", () => {
+    for (const qualifiedPath of [
+      "src/app.ts",
+      "C:\\projects\\app.ts",
+      "c:/projects/app.ts",
+      "/home/user/app.ts",
+      ":src",
+      "src/a:b.ts",
+      "**/*:x",
+    ]) {
+      assert.deepStrictEqual(
+        PathUtils.parseQualifiedPath(qualifiedPath),
+        { path: qualifiedPath },
+        qualifiedPath
+      );
+    }
+  });
+
+  test("toQualifiedPath is the inverse of parseQualifiedPath", () => {
+    assert.strictEqual(
+      PathUtils.toQualifiedPath("backend", "src/app.ts"),
+      "backend:src/app.ts"
+    );
+    assert.strictEqual(
+      PathUtils.toQualifiedPath(undefined, "src/app.ts"),
+      "src/app.ts"
+    );
+
+    const { folder, path } = PathUtils.parseQualifiedPath("web:a/b.ts");
+    assert.strictEqual(PathUtils.toQualifiedPath(folder, path), "web:a/b.ts");
+  });
+});
@@ -0,0 +1,52 @@
+import * as assert from "assert";
+import { SECRET_PATTERNS } from "../tools/summary-tool/constants";
+import { SecretDetector } from "../tools/summary-tool/models/types";
+import { SecretRedactor } from "../tools/summary-tool/services/secretRedactor";
+
+suite("SecretRedactor", () => {
+  const createRedactor = () =>
+    new SecretRedactor({
+      mode: "redact",
+      detectors: Object.keys(SECRET_PATTERNS) as SecretDetector[],
+      patterns: [],
+    });
+
+  test("password assignments are redacted", () => {
+    const { text, findings } = createRedactor().redact(
+      'const db_password = "hunter22";\nexport API_TOKEN=abcd1234\n',
+      "config.ts"
+    );
+
+    assert.strictEqual(findings.length, 2);
+    assert.ok(!text.includes("hunter22"));
+    assert.ok(!text.includes("abcd1234"));
+  });
+
+  test("long runs of word characters are scanned in linear time", () => {
+    for (const text of [
+      "x = " + "a".repeat(40_000),
+      'x = "' + "a".repeat(40_000),
+      "password".repeat(5_000),
+      "PASSWORD".repeat(5_000) + "=",
+    ]) {
+      const start = Date.now();
+      createRedactor().redact(text, "generated.txt");
+      const elapsed = Date.now() - start;
+
+      assert.ok(elapsed < 500, `${text.slice(0, 12)}… took ${elapsed} ms`);
+    }
+  });
+
+  test("unknown detectors are skipped", () => {
+    const redactor = new SecretRedactor({
+      mode: "redact",
+      detectors: ["jwt", "no-such-detector", "constructor"] as SecretDetector[],
+      patterns: [],
+    });
+
+    assert.strictEqual(
+      redactor.redact("nothing to see", "a.txt").findings.length,
+      0
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import * as assert from "assert";
+import * as path from "path";
+import {
+  StructureFormat,
+  StructureSummaryOptions,
+} from "../tools/summary-tool/models/types";
+import { StructureRenderer } from "../tools/summary-tool/services/structureRenderer";
+import { StructureSummarizer } from "../tools/summary-tool/services/structureSummarizer";
+
+// The workspace the tests are run in
+const WORKSPACE = path.resolve(__dirname, "../../src/test/fixtures/workspace");
+
+suite("StructureRenderer", () => {
+  const render = async (
+    rules: string[],
+    options: Omit<StructureSummaryOptions, "workspaceRoots"> = {}
+  ) => {
+    const structure = await new StructureSummarizer(rules).generateStructure({
+      workspaceRoots: [{ name: "workspace", path: WORKSPACE }],
+      ...options,
+    });
+    return (format: StructureFormat) =>
+      new StructureRenderer(format).render(structure);
+  };
+
+  test("each format lists folders first and shows collapsed folders", async () => {
+    const renderAs = await render(["!docs"]);
+
+    assert.strictEqual(
+      renderAs("tree"),
+      "workspace/\n" +
+        "├── docs/ (collapsed, 1 item)\n" +
+        "└── src/\n" +
+        "    ├── main.py\n" +
+        "    └── notes.md"
+    );
+    assert.strictEqual(
+      renderAs("tree-ascii"),
+      "workspace/\n" +
+        "|-- docs/ (collapsed, 1 item)\n" +
+        "`-- src/\n" +
+        "    |-- main.py\n" +
+        "    `-- notes.md"
+    );
+    assert.strictEqual(
+      renderAs("markdown"),
+      "- `workspace/`\n" +
+        "  - `docs/` *(collapsed, 1 item)*\n" +
+        "  - `src/`\n" +
+        "    - `main.py`\n" +
+        "    - `notes.md`"
+    );
+    assert.strictEqual(
+      renderAs("yaml"),
+      "workspace/:\n" +
+        '  - docs/: "collapsed, 1 item"\n' +
+        "  - src/:\n" +
+        "      - main.py\n" +
+        "      - notes.md"
+    );
+    assert.deepStrictEqual(JSON.parse(renderAs("json")).folder_structure, {
+      docs: 1,
+      src: { "main.py": 0, "notes.md": 0 },
+    });
+  });
+
+  test("entries past the children limit are summarized in each format", async () => {
+    const renderAs = await render(["!docs"], {
+      limits: { maxDepth: 0, maxChildren: 1 },
+    });
+
+    assert.strictEqual(
+      renderAs("tree"),
+      "workspace/\n" +
+        "├── docs/ (collapsed, 1 item)\n" +
+        "└── … and 1 more folder"
+    );
+    assert.strictEqual(
+      renderAs("tree-ascii"),
+      "workspace/\n" +
+        "|-- docs/ (collapsed, 1 item)\n" +
+        "`-- … and 1 more folder"
+    );
+    assert.strictEqual(
+      renderAs("markdown"),
+      "- `workspace/`\n" +
+        "  - `docs/` *(collapsed, 1 item)*\n" +
+        "  - *… and 1 more folder*"
+    );
+    assert.strictEqual(
+      renderAs("yaml"),
+      "workspace/:\n" +
+        '  - docs/: "collapsed, 1 item"\n' +
+        '  - "… and 1 more folder"'
+    );
+    assert.deepStrictEqual(JSON.parse(renderAs("json")).folder_structure, {
+      docs: 1,
+      "…": "… and 1 more folder",
+    });
+  });
+
+  test("folders at the depth limit list none of their entries", async () => {
+    const renderAs = await render([], {
+      limits: { maxDepth: 1, maxChildren: 0 },
+    });
+
+    assert.strictEqual(
+      renderAs("tree"),
+      "workspace/\n" +
+        "├── docs/\n" +
+        "│   └── … and 1 more file (types: .md×1)\n" +
+        "└── src/\n" +
+        "    └── … and 2 more files (types: .md×1, .py×1)"
+    );
+    assert.deepStrictEqual(JSON.parse(renderAs("json")).folder_structure, {
+      docs: { "…": "… and 1 more file (types: .md×1)" },
+      src: { "…": "… and 2 more files (types: .md×1, .py×1)" },
+    });
+  });
+
+  test("limit overrides replace the global limits below their folder", async () => {
+    const renderAs = await render([], {
+      limits: { maxDepth: 1, maxChildren: 0 },
+      limitOverrides: { src: { maxDepth: 0 } },
+    });
+
+    assert.strictEqual(
+      renderAs("tree"),
+      "workspace/\n" +
+        "├── docs/\n" +
+        "│   └── … and 1 more file (types: .md×1)\n" +
+        "└── src/\n" +
+        "    ├── main.py\n" +
+        "    └── notes.md"
+    );
+  });
+
+  test("file names and languages follow the format", () => {
+    assert.strictEqual(
+      new StructureRenderer().getFileName(),
+      "project_structure.txt"
+    );
+    assert.strictEqual(new StructureRenderer().getLanguage(), "text");
+    assert.strictEqual(
+      new StructureRenderer("yaml").getFileName(),
+      "project_structure.yaml"
+    );
+    assert.strictEqual(new StructureRenderer("json").getLanguage(), "json");
+  });
+});
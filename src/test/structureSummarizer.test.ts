@@ -0,0 +1,52 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FolderNode } from "../tools/summary-tool/models/types";
+import { StructureSummarizer } from "../tools/summary-tool/services/structureSummarizer";
+
+suite("StructureSummarizer", () => {
+  const structure: FolderNode = {
+    name: "app",
+    path: "",
+    isFile: false,
+    children: { "main.py": null },
+  };
+  let targetPath: string;
+
+  setup(() => {
+    targetPath = fs.mkdtempSync(path.join(os.tmpdir(), "ai-context-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(targetPath, { recursive: true, force: true });
+  });
+
+  test("switching formats removes only the structure file a run wrote", async () => {
+    const summarizer = new StructureSummarizer([]);
+    const save = (fileName: string, format: "tree" | "json" | "markdown") =>
+      summarizer.saveStructureToFile(
+        structure,
+        path.join(targetPath, fileName),
+        format
+      );
+    fs.writeFileSync(path.join(targetPath, "project_structure.md"), "mine");
+
+    await save("project_structure.txt", "tree");
+    await save("folder_structure.json", "json");
+
+    assert.deepStrictEqual(fs.readdirSync(targetPath).sort(), [
+      "folder_structure.json",
+      "project_structure.md",
+    ]);
+    assert.strictEqual(
+      fs.readFileSync(path.join(targetPath, "project_structure.md"), "utf8"),
+      "mine"
+    );
+
+    await save("project_structure.md", "markdown");
+    assert.deepStrictEqual(fs.readdirSync(targetPath), [
+      "project_structure.md",
+    ]);
+  });
+});
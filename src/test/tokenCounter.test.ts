@@ -0,0 +1,26 @@
+import * as assert from "assert";
+import { TOKENIZER } from "../tools/summary-tool/constants";
+import { TokenCounter } from "../tools/summary-tool/services/tokenCounter";
+
+suite("TokenCounter", () => {
+  const tooLarge = "a ".repeat(TOKENIZER.MAX_BPE_CHARACTERS / 2 + 1);
+
+  test("reports the estimate for text too large to encode", () => {
+    const counter = new TokenCounter("cl100k");
+
+    assert.deepStrictEqual(counter.countWithMethod(tooLarge), {
+      tokens: TokenCounter.estimate(tooLarge),
+      method: "estimate",
+    });
+    assert.strictEqual(counter.getUsedMethod(), "estimate");
+  });
+
+  test("reports mixed methods", () => {
+    const counter = new TokenCounter("cl100k");
+
+    assert.strictEqual(counter.getUsedMethod(), "cl100k");
+    assert.strictEqual(counter.countWithMethod("hello world").method, "cl100k");
+    counter.count(tooLarge);
+    assert.strictEqual(counter.getUsedMethod(), "mixed");
+  });
+});
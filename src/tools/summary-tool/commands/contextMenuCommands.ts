@@ -97,20 +97,32 @@ export class ContextMenuSummaryCommands {
     }
   }
 
+  public async toggleOutline(uri?: vscode.Uri): Promise<void> {
+    try {
+      if (!uri) {
+        vscode.window.showErrorMessage("No file selected for outline");
+        return;
+      }
+
+      await this.configManager.toggleOutline(PathUtils.uriToPath(uri));
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error toggling outline: ${error}`);
+      console.error("Toggle outline error:", error);
+    }
+  }
+
   public async isItemInIgnoreList(uri?: vscode.Uri): Promise<boolean> {
     if (!uri) {
       return false;
     }
     const itemPath = PathUtils.uriToPath(uri);
-    const ignoreList = this.configManager.getConfig().ignoreStructure;
-    const relativePath = PathUtils.getRelativePathFromWorkspace(itemPath);
-    return ignoreList.includes(relativePath);
+    return this.configManager.isItemIgnoredInStructure(itemPath);
   }
 
   public async reset(): Promise<void> {
     try {
       const confirm = await vscode.window.showWarningMessage(
-        "This will reset all tracking, untrack, and ignore structure settings. Are you sure?",
+        "This will reset all tracking, untrack, and ignore structure settings and delete the saved profiles. Are you sure?",
         { modal: true },
         "Reset All"
       );
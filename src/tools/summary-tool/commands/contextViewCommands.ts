@@ -0,0 +1,78 @@
+import * as vscode from "vscode";
+import { ContextTreeNode } from "../models/types";
+import { ConfigManager } from "../services/configManager";
+import { ExclusionMatcher } from "../services/exclusionMatcher";
+import { PathUtils } from "../utils/pathUtils";
+
+export class ContextViewCommands {
+  private configManager: ConfigManager;
+
+  constructor() {
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  public async untrack(node?: ContextTreeNode): Promise<void> {
+    try {
+      if (!node) {
+        vscode.window.showErrorMessage("No item selected for untracking");
+        return;
+      }
+
+      // Top-level items come from an include rule or git change source,
+      // which is removed when it names just that item. Other items get an
+      // exclude rule instead.
+      if (node.gitSource) {
+        await this.configManager.removeGitChange(node.gitSource);
+        vscode.window.setStatusBarMessage(
+          `Stopped tracking git changes: ${node.label}`
+        );
+      } else if (node.rule && (!node.path || this.isRuleFor(node))) {
+        await this.configManager.removeRules([node.rule]);
+        vscode.window.setStatusBarMessage(`Removed rule: ${node.rule}`);
+      } else if (node.path) {
+        await this.configManager.addToUntrack(node.path);
+        vscode.window.setStatusBarMessage(
+          `Removed from tracking: ${node.relativePath}`
+        );
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error untracking item: ${error}`);
+      console.error("Untrack from view error:", error);
+    }
+  }
+
+  public async reveal(node?: ContextTreeNode): Promise<void> {
+    if (!node?.path) {
+      return;
+    }
+
+    await vscode.commands.executeCommand(
+      "revealInExplorer",
+      vscode.Uri.file(node.path)
+    );
+  }
+
+  public async open(node?: ContextTreeNode): Promise<void> {
+    if (!node?.path) {
+      return;
+    }
+
+    await vscode.commands.executeCommand(
+      "vscode.open",
+      vscode.Uri.file(node.path)
+    );
+  }
+
+  /**
+   * Whether the node's include rule names exactly the node's path
+   */
+  private isRuleFor(node: ContextTreeNode): boolean {
+    const parsed = node.rule ? ExclusionMatcher.parseRule(node.rule) : null;
+    return (
+      parsed !== null &&
+      node.relativePath !== undefined &&
+      PathUtils.toQualifiedPath(parsed.folder, parsed.pattern) ===
+        node.relativePath.replace(/\\/g, "/")
+    );
+  }
+}
@@ -0,0 +1,174 @@
+import * as vscode from "vscode";
+import { LABELS, MESSAGES, PROGRESS_SHARES } from "../constants";
+import { ConfigManager } from "../services/configManager";
+import { ContentCache } from "../services/contentCache";
+import { FileTracker } from "../services/fileTracker";
+import { GitignoreMatcher } from "../services/gitignoreMatcher";
+import { OutputFormatter } from "../services/outputFormatter";
+import { SecretRedactor } from "../services/secretRedactor";
+import { StructureSummarizer } from "../services/structureSummarizer";
+import { TokenCounter } from "../services/tokenCounter";
+import { PathUtils } from "../utils/pathUtils";
+
+export class CopyToClipboardCommand {
+  private configManager: ConfigManager;
+
+  constructor() {
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  /**
+   * Build the structure and combined files in memory and put them on the
+   * clipboard, without writing anything to disk
+   */
+  public async execute(): Promise<void> {
+    try {
+      const workspaceRoots = this.configManager.getWorkspaceRoots();
+      if (workspaceRoots.length === 0) {
+        vscode.window.showErrorMessage(MESSAGES.NO_WORKSPACE);
+        return;
+      }
+
+      const config = this.configManager.getConfig();
+
+      const result = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Building AI Context",
+          cancellable: true,
+        },
+        async (progress, token) => {
+          const contentCache = ContentCache.getInstance();
+          contentCache.resetStats();
+
+          const gitignoreMatcher = config.respectGitignore
+            ? new GitignoreMatcher(workspaceRoots.map((root) => root.path))
+            : null;
+          const structureSummarizer = new StructureSummarizer(
+            config.rules,
+            gitignoreMatcher
+          );
+          const fileTracker = new FileTracker(
+            config.rules,
+            gitignoreMatcher,
+            config.gitChanges
+          );
+          structureSummarizer.setProgress(progress, PROGRESS_SHARES.STRUCTURE);
+          fileTracker.setProgress(progress, PROGRESS_SHARES.FILES);
+          structureSummarizer.setCancellation(token);
+          fileTracker.setCancellation(token);
+
+          const structure = await structureSummarizer.generateStructure({
+            workspaceRoots,
+            limits: {
+              maxDepth: config.structureMaxDepth,
+              maxChildren: config.structureMaxChildren,
+            },
+            limitOverrides: config.structureLimitOverrides,
+          });
+          const structureText = await structureSummarizer.generateStructureText(
+            structure,
+            config.structureFormat
+          );
+
+          const fileResults = await fileTracker.trackAndBuildContent({
+            workspaceRoots,
+            tokenizer: config.tokenizer,
+            maxTokens: config.maxTokens,
+            tokenBudgetMode: config.tokenBudgetMode,
+            outputFormat: config.outputFormat,
+            structureText,
+            structureFormat: config.structureFormat,
+            diffMode: config.diffMode,
+            diffBase: config.diffBase,
+            diffContextLines: config.diffContextLines,
+            outline: config.outline,
+            compression: {
+              passes: config.compression,
+              keepDocComments: config.compressionKeepDocComments,
+            },
+            redaction: {
+              mode: config.redaction,
+              detectors: config.redactionDetectors,
+              patterns: config.redactionPatterns,
+            },
+          });
+
+          // Plain text has no place for the structure, so it goes first
+          const embedsStructure =
+            new OutputFormatter(config.outputFormat).formatPreamble(
+              structureText
+            ) !== "";
+          const content = embedsStructure
+            ? fileResults.content
+            : `${structureText}\n\n${fileResults.content}`;
+
+          await contentCache.save();
+
+          return { ...fileResults, content };
+        }
+      );
+
+      if (result.cancelled) {
+        vscode.window.showWarningMessage(
+          `Copy cancelled after ${result.processedFiles} of ` +
+            `${result.totalFiles} files. Nothing was copied to the clipboard.`
+        );
+        return;
+      }
+
+      if (result.totalFiles === 0) {
+        vscode.window.showWarningMessage(MESSAGES.NOTHING_TRACKED);
+        return;
+      }
+
+      const size = Buffer.byteLength(result.content, "utf8");
+      const formattedSize = PathUtils.formatFileSize(size);
+      const tokens = TokenCounter.formatTokenCount(
+        result.tokenUsage.totalTokens
+      );
+
+      // Very large payloads can freeze chat UIs, so ask first
+      if (
+        config.clipboardWarningSizeKb > 0 &&
+        size > config.clipboardWarningSizeKb * 1024
+      ) {
+        const confirm = await vscode.window.showWarningMessage(
+          `The context is ${formattedSize} (~${tokens} tokens). Copy it to the clipboard anyway?`,
+          { modal: true },
+          LABELS.COPY_ANYWAY
+        );
+        if (confirm !== LABELS.COPY_ANYWAY) {
+          return;
+        }
+      }
+
+      await vscode.env.clipboard.writeText(result.content);
+
+      let message =
+        `Copied ${result.trackedFiles.length} files to the clipboard ` +
+        `(${formattedSize}, ${tokens} tokens).`;
+      if (result.outlinedFiles.length > 0) {
+        message += ` ${result.outlinedFiles.length} files were reduced to outlines.`;
+      }
+      if (result.compression) {
+        message += ` Compression: ${FileTracker.formatCompression(result.compression)}.`;
+      }
+      if (result.redactions.length > 0) {
+        message += ` Redacted ${SecretRedactor.formatFindings(result.redactions)}.`;
+      }
+      if (result.gitChanges.length > 0) {
+        message += ` ${FileTracker.formatGitChanges(result.gitChanges)}.`;
+      }
+      if (result.tokenUsage.budgetExceeded) {
+        message += ` ${MESSAGES.TOKEN_BUDGET_EXCEEDED}, ${result.tokenUsage.omittedFiles.length} files omitted.`;
+        vscode.window.showWarningMessage(message);
+      } else {
+        vscode.window.showInformationMessage(message);
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error copying context: ${error}`);
+      console.error("Copy to clipboard command error:", error);
+    }
+  }
+}
@@ -0,0 +1,235 @@
+import * as vscode from "vscode";
+import { MATCH_TYPE_LABELS } from "../constants";
+import { PathExplanation, RuleExplanation } from "../models/types";
+import { ConfigManager } from "../services/configManager";
+import { ExclusionMatcher } from "../services/exclusionMatcher";
+import { GitignoreMatcher } from "../services/gitignoreMatcher";
+import { PathExplainer } from "../services/pathExplainer";
+import { PathUtils } from "../utils/pathUtils";
+
+interface ExplanationItem extends vscode.QuickPickItem {
+  fix?: () => Promise<void>;
+}
+
+export class ExplainCommand {
+  private configManager: ConfigManager;
+
+  constructor() {
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  /**
+   * Show why an item is or is not part of a summary, with quick fixes for
+   * the rules behind the decision
+   */
+  public async execute(uri?: vscode.Uri): Promise<void> {
+    try {
+      const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+      if (!target) {
+        vscode.window.showErrorMessage("No item selected to explain");
+        return;
+      }
+
+      const itemPath = PathUtils.uriToPath(target);
+      const stats = await PathUtils.getFileStats(itemPath);
+      if (
+        !stats ||
+        !PathUtils.isInWorkspace(itemPath) ||
+        !PathUtils.getRelativePathFromWorkspace(itemPath)
+      ) {
+        vscode.window.showErrorMessage(
+          "Select a file or folder inside the workspace"
+        );
+        return;
+      }
+
+      const config = this.configManager.getConfig();
+      const workspaceRoots = this.configManager.getWorkspaceRoots();
+      const gitignoreMatcher = config.respectGitignore
+        ? new GitignoreMatcher(workspaceRoots.map((root) => root.path))
+        : null;
+      const explainer = new PathExplainer(
+        config.rules,
+        gitignoreMatcher,
+        config.gitChanges
+      );
+
+      const explanation = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Window,
+          title: "Checking AI context rules",
+        },
+        () => explainer.explain(workspaceRoots, itemPath, stats.isDirectory())
+      );
+
+      const picked = await vscode.window.showQuickPick(
+        this.createItems(explanation, itemPath),
+        {
+          title:
+            explanation.decision === "included"
+              ? `Why is ${explanation.relativePath} included?`
+              : `Why is ${explanation.relativePath} left out?`,
+          placeHolder: "Pick a quick fix, or press Escape to close",
+          matchOnDescription: true,
+        }
+      );
+
+      await picked?.fix?.();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error explaining item: ${error}`);
+      console.error("Explain item error:", error);
+    }
+  }
+
+  private createItems(
+    explanation: PathExplanation,
+    itemPath: string
+  ): ExplanationItem[] {
+    const { decision, trackedBy, excludedBy, gitignoredBy, collapsedBy } =
+      explanation;
+    const items: ExplanationItem[] = [
+      { label: "Decision", kind: vscode.QuickPickItemKind.Separator },
+    ];
+
+    if (decision === "included") {
+      items.push({ label: "$(check) Included in the AI context" });
+    } else if (decision === "not-tracked") {
+      items.push({
+        label: "$(circle-large-outline) Not tracked: no include rule covers it",
+      });
+    }
+
+    if (trackedBy) {
+      items.push({
+        label: trackedBy.isAncestor
+          ? `$(pass) Tracked through ${trackedBy.matchedPath} by ${trackedBy.rule}`
+          : `$(pass) Tracked directly by ${trackedBy.rule}`,
+        description: ExplainCommand.describeMatch(trackedBy),
+      });
+    } else if (decision === "excluded" || decision === "gitignored") {
+      items.push({
+        label: "$(circle-large-outline) Not tracked by any include rule",
+      });
+    }
+
+    if (excludedBy) {
+      items.push({
+        label: excludedBy.isAncestor
+          ? `$(circle-slash) Excluded through ${excludedBy.matchedPath} by ${excludedBy.rule}`
+          : `$(circle-slash) Excluded by ${excludedBy.rule}`,
+        description: ExplainCommand.describeMatch(excludedBy),
+      });
+    }
+
+    if (gitignoredBy) {
+      items.push({
+        label:
+          "$(eye-closed) Ignored by " +
+          (gitignoredBy.rule
+            ? `${gitignoredBy.rule.source} pattern ${gitignoredBy.rule.pattern}`
+            : "the .git folder"),
+        description: "turn off respect-gitignore to include ignored files",
+      });
+    }
+
+    if (collapsedBy) {
+      items.push({
+        label: `$(fold) Collapsed in the structure by ${collapsedBy.rule}`,
+        description: ExplainCommand.describeMatch(collapsedBy),
+      });
+    }
+
+    items.push({
+      label: "Matching rules",
+      kind: vscode.QuickPickItemKind.Separator,
+    });
+    if (explanation.matches.length === 0) {
+      items.push({ label: "No rule matches this item" });
+    }
+    items.push(
+      ...explanation.matches.map((match) => ({
+        label: match.rule,
+        description: ExplainCommand.describeMatch(match),
+      }))
+    );
+
+    const fixes = this.createFixes(explanation, itemPath);
+    if (fixes.length > 0) {
+      items.push(
+        { label: "Quick fixes", kind: vscode.QuickPickItemKind.Separator },
+        ...fixes
+      );
+    }
+
+    return items;
+  }
+
+  /**
+   * Remove the rule behind the decision, or add a rule for exactly this
+   * path at the end of the list, where it takes precedence
+   */
+  private createFixes(
+    explanation: PathExplanation,
+    itemPath: string
+  ): ExplanationItem[] {
+    const { decision, trackedBy, excludedBy, collapsedBy, relativePath } =
+      explanation;
+    const fixes: ExplanationItem[] = [];
+    const removeRule = (rule: string) => {
+      if (!fixes.some((fix) => fix.label === `$(trash) Remove rule ${rule}`)) {
+        fixes.push({
+          label: `$(trash) Remove rule ${rule}`,
+          fix: async () => {
+            await this.configManager.removeRules([rule]);
+            vscode.window.setStatusBarMessage(`Removed rule ${rule}`);
+          },
+        });
+      }
+    };
+
+    if (decision === "excluded" && excludedBy) {
+      removeRule(excludedBy.rule);
+    }
+    if (decision !== "included" && decision !== "gitignored") {
+      const rule = ExclusionMatcher.formatRule("include", relativePath);
+      fixes.push({
+        label:
+          decision === "excluded"
+            ? `$(add) Add exception ${rule}`
+            : `$(add) Track with ${rule}`,
+        fix: async () => {
+          await this.configManager.addToTrack(itemPath);
+          vscode.window.setStatusBarMessage(`Added rule ${rule}`);
+        },
+      });
+    }
+    if (decision === "included") {
+      if (trackedBy) {
+        removeRule(trackedBy.rule);
+      }
+      const rule = ExclusionMatcher.formatRule("exclude", relativePath);
+      fixes.push({
+        label: `$(remove) Add exception ${rule}`,
+        fix: async () => {
+          await this.configManager.addToUntrack(itemPath);
+          vscode.window.setStatusBarMessage(`Added rule ${rule}`);
+        },
+      });
+    }
+    if (collapsedBy?.action === "collapse") {
+      removeRule(collapsedBy.rule);
+    }
+
+    return fixes;
+  }
+
+  /**
+   * e.g. "exclude, name match on node_modules"
+   */
+  private static describeMatch(match: RuleExplanation): string {
+    return (
+      `${match.action}, ${MATCH_TYPE_LABELS[match.matchType]} match ` +
+      `on ${match.matchedPath}`
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import * as vscode from "vscode";
+import { GIT_CHANGES, MESSAGES } from "../constants";
+import { GitChangeKind } from "../models/types";
+import { ConfigManager } from "../services/configManager";
+import { GitChangeTracker } from "../services/gitChangeTracker";
+
+export class GitChangesCommand {
+  private configManager: ConfigManager;
+  private gitChangeTracker: GitChangeTracker;
+
+  constructor() {
+    this.configManager = ConfigManager.getInstance();
+    this.gitChangeTracker = new GitChangeTracker();
+  }
+
+  /**
+   * Pick which local git changes are tracked next to the include rules.
+   * Picking nothing stops tracking git changes.
+   */
+  public async execute(): Promise<void> {
+    try {
+      const workspaceRoots = this.configManager.getWorkspaceRoots();
+      if (workspaceRoots.length === 0) {
+        vscode.window.showErrorMessage(MESSAGES.NO_WORKSPACE);
+        return;
+      }
+
+      const currentSources = this.configManager
+        .getConfig()
+        .gitChanges.map((source) => GitChangeTracker.parseSource(source));
+
+      const picked = await vscode.window.showQuickPick(
+        (Object.keys(GIT_CHANGES.LABELS) as GitChangeKind[]).map((kind) => {
+          const current = currentSources.find(
+            (source) => source?.kind === kind
+          );
+          return {
+            label: GIT_CHANGES.LABELS[kind],
+            description: current?.ref ?? kind,
+            changeKind: kind,
+            picked: current !== undefined,
+          };
+        }),
+        {
+          placeHolder: "Select the git changes to track",
+          canPickMany: true,
+          ignoreFocusOut: true,
+        }
+      );
+      if (!picked) {
+        return; // User cancelled
+      }
+
+      const sources: string[] = [];
+      for (const item of picked) {
+        if (!GitChangeTracker.needsRef(item.changeKind)) {
+          sources.push(item.changeKind);
+          continue;
+        }
+
+        const ref = await this.promptRef(
+          item.label,
+          currentSources.find((source) => source?.kind === item.changeKind)?.ref
+        );
+        if (!ref) {
+          return; // User cancelled
+        }
+        sources.push(
+          GitChangeTracker.formatSource({ kind: item.changeKind, ref })
+        );
+      }
+
+      await this.configManager.updateGitChanges(sources);
+      vscode.window.setStatusBarMessage(
+        sources.length > 0
+          ? `Tracking git changes: ${sources
+              .map((source) => GitChangeTracker.describeSource(source))
+              .join(", ")}`
+          : "Stopped tracking git changes"
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error tracking git changes: ${error}`);
+      console.error("Track git changes error:", error);
+    }
+  }
+
+  /**
+   * Ask for a ref that resolves in at least one workspace repository
+   */
+  private async promptRef(
+    label: string,
+    value: string = GIT_CHANGES.DEFAULT_REF
+  ): Promise<string | undefined> {
+    const rootPaths = this.configManager
+      .getWorkspaceRoots()
+      .map((root) => root.path);
+
+    const ref = await vscode.window.showInputBox({
+      prompt: `${label}: branch, tag or commit`,
+      value,
+      ignoreFocusOut: true,
+      validateInput: async (input) => {
+        const trimmed = input.trim();
+        if (!trimmed) {
+          return "Ref cannot be empty";
+        }
+        for (const rootPath of rootPaths) {
+          if (await this.gitChangeTracker.isValidRef(rootPath, trimmed)) {
+            return undefined;
+          }
+        }
+        return `"${trimmed}" is not a commit in the workspace repository`;
+      },
+    });
+
+    return ref?.trim();
+  }
+}
@@ -1,31 +1,84 @@
 import * as vscode from "vscode";
-import { SummaryToolCommand } from "../models/types";
+import { ContextTreeNode, SummaryToolCommand } from "../models/types";
+import { ConfigManager } from "../services/configManager";
+import { ContentCache } from "../services/contentCache";
 import { ContextMenuSummaryCommands } from "./contextMenuCommands";
+import { ContextViewCommands } from "./contextViewCommands";
+import { CopyToClipboardCommand } from "./copyToClipboardCommand";
+import { ExplainCommand } from "./explainCommand";
+import { GitChangesCommand } from "./gitChangesCommand";
+import { PreviewCommand } from "./previewCommand";
+import { ProfileCommands } from "./profileCommands";
 import { SummaryCommand } from "./summaryCommand";
 import { SummaryOneFileCommand } from "./summaryOneFileCommand";
+import { WatchCommand } from "./watchCommand";
 
 export class SummaryToolCommands {
   private summaryCommand: SummaryCommand;
   private contextMenuCommands: ContextMenuSummaryCommands;
   private summaryOneFileCommand: SummaryOneFileCommand;
+  private copyToClipboardCommand: CopyToClipboardCommand;
+  private watchCommand: WatchCommand;
+  private contextViewCommands: ContextViewCommands;
+  private profileCommands: ProfileCommands;
+  private gitChangesCommand: GitChangesCommand;
+  private previewCommand: PreviewCommand;
+  private explainCommand: ExplainCommand;
 
   constructor() {
     this.summaryCommand = new SummaryCommand();
     this.contextMenuCommands = new ContextMenuSummaryCommands();
     this.summaryOneFileCommand = new SummaryOneFileCommand();
+    this.copyToClipboardCommand = new CopyToClipboardCommand();
+    this.watchCommand = new WatchCommand(
+      this.summaryCommand,
+      this.summaryOneFileCommand
+    );
+    this.contextViewCommands = new ContextViewCommands();
+    this.profileCommands = new ProfileCommands();
+    this.gitChangesCommand = new GitChangesCommand();
+    this.previewCommand = new PreviewCommand();
+    this.explainCommand = new ExplainCommand();
   }
 
   public registerCommands(context: vscode.ExtensionContext): void {
-    // Main summarize command
+    ContentCache.getInstance().setStoragePath(context.storageUri?.fsPath);
+
+    // Main summarize command, optionally for given profile names
     const summarizeCommand = vscode.commands.registerCommand(
       SummaryToolCommand.SUMMARIZE,
-      () => this.summaryCommand.execute()
+      (profiles?: string | string[]) => this.summaryCommand.execute(profiles)
     );
 
     // Single file summarize command
     const summarizeOneFileCommand = vscode.commands.registerCommand(
       SummaryToolCommand.SUMMARIZE_ONE_FILE,
-      () => this.summaryOneFileCommand.execute()
+      (profiles?: string | string[]) =>
+        this.summaryOneFileCommand.execute(profiles)
+    );
+
+    // In-memory summary copied to the clipboard
+    const copyToClipboardCommand = vscode.commands.registerCommand(
+      SummaryToolCommand.COPY_TO_CLIPBOARD,
+      () => this.copyToClipboardCommand.execute()
+    );
+
+    // Dry run listing what a summary would include
+    const previewContextCommand = vscode.commands.registerCommand(
+      SummaryToolCommand.PREVIEW_CONTEXT,
+      () => this.previewCommand.execute()
+    );
+
+    // Background regeneration on file changes
+    const toggleWatchCommand = vscode.commands.registerCommand(
+      SummaryToolCommand.TOGGLE_WATCH,
+      () => this.watchCommand.toggle()
+    );
+
+    // Files changed in the local git repository
+    const trackGitChangesCommand = vscode.commands.registerCommand(
+      SummaryToolCommand.TRACK_GIT_CHANGES,
+      () => this.gitChangesCommand.execute()
     );
 
     // Context menu commands
@@ -44,19 +97,86 @@ export class SummaryToolCommands {
       (uri: vscode.Uri) => this.contextMenuCommands.toggleIgnoreStructure(uri)
     );
 
+    const toggleOutlineCommand = vscode.commands.registerCommand(
+      SummaryToolCommand.TOGGLE_OUTLINE,
+      (uri: vscode.Uri) => this.contextMenuCommands.toggleOutline(uri)
+    );
+
+    const explainCommand = vscode.commands.registerCommand(
+      SummaryToolCommand.EXPLAIN,
+      (uri?: vscode.Uri) => this.explainCommand.execute(uri)
+    );
+
     const resetSettingsCommand = vscode.commands.registerCommand(
       SummaryToolCommand.RESET,
       () => this.contextMenuCommands.reset()
     );
 
+    // Context view item commands
+    const untrackFromViewCommand = vscode.commands.registerCommand(
+      SummaryToolCommand.UNTRACK_FROM_VIEW,
+      (node: ContextTreeNode) => this.contextViewCommands.untrack(node)
+    );
+
+    const revealFromViewCommand = vscode.commands.registerCommand(
+      SummaryToolCommand.REVEAL_FROM_VIEW,
+      (node: ContextTreeNode) => this.contextViewCommands.reveal(node)
+    );
+
+    const openFromViewCommand = vscode.commands.registerCommand(
+      SummaryToolCommand.OPEN_FROM_VIEW,
+      (node: ContextTreeNode) => this.contextViewCommands.open(node)
+    );
+
+    // Profile commands
+    const createProfileCommand = vscode.commands.registerCommand(
+      SummaryToolCommand.CREATE_PROFILE,
+      () => this.profileCommands.create()
+    );
+
+    const switchProfileCommand = vscode.commands.registerCommand(
+      SummaryToolCommand.SWITCH_PROFILE,
+      () => this.profileCommands.switch()
+    );
+
+    const duplicateProfileCommand = vscode.commands.registerCommand(
+      SummaryToolCommand.DUPLICATE_PROFILE,
+      () => this.profileCommands.duplicate()
+    );
+
+    const renameProfileCommand = vscode.commands.registerCommand(
+      SummaryToolCommand.RENAME_PROFILE,
+      () => this.profileCommands.rename()
+    );
+
+    const deleteProfileCommand = vscode.commands.registerCommand(
+      SummaryToolCommand.DELETE_PROFILE,
+      () => this.profileCommands.delete()
+    );
+
     // Register all commands with the extension context
     context.subscriptions.push(
       summarizeCommand,
       summarizeOneFileCommand,
+      copyToClipboardCommand,
+      previewContextCommand,
+      toggleWatchCommand,
+      this.watchCommand,
+      trackGitChangesCommand,
       trackCommand,
       untrackCommand,
       ignoreStructureCommand,
-      resetSettingsCommand
+      toggleOutlineCommand,
+      explainCommand,
+      resetSettingsCommand,
+      untrackFromViewCommand,
+      revealFromViewCommand,
+      openFromViewCommand,
+      createProfileCommand,
+      switchProfileCommand,
+      duplicateProfileCommand,
+      renameProfileCommand,
+      deleteProfileCommand
     );
   }
 }
@@ -67,5 +187,18 @@ export function registerSummaryToolCommands(
 ): SummaryToolCommands {
   const commands = new SummaryToolCommands();
   commands.registerCommands(context);
+
+  // Convert legacy track/untrack/ignore-structure settings to rules
+  ConfigManager.getInstance()
+    .migrateLegacyConfig()
+    .then((migrated) => {
+      if (migrated) {
+        vscode.window.setStatusBarMessage(
+          "Build AI Context: tracking settings migrated to rules"
+        );
+      }
+    })
+    .catch((error) => console.error("Config migration error:", error));
+
   return commands;
 }
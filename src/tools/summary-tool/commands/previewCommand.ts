@@ -0,0 +1,259 @@
+import * as vscode from "vscode";
+import {
+  LABELS,
+  MESSAGES,
+  PREVIEW_DECISION_LABELS,
+  PROGRESS_SHARES,
+} from "../constants";
+import {
+  PreviewDecision,
+  PreviewEntry,
+  SummaryToolCommand,
+  TokenizerMethod,
+} from "../models/types";
+import { ConfigManager } from "../services/configManager";
+import { ContentCache } from "../services/contentCache";
+import { FileTracker } from "../services/fileTracker";
+import { GitignoreMatcher } from "../services/gitignoreMatcher";
+import { StructureSummarizer } from "../services/structureSummarizer";
+import { TokenCounter } from "../services/tokenCounter";
+import { PathUtils } from "../utils/pathUtils";
+
+interface PreviewReport {
+  profile: string;
+  tokenizer: TokenizerMethod;
+  maxTokens: number;
+  structure: { files: number; directories: number; tokens: number };
+  entries: PreviewEntry[];
+}
+
+export class PreviewCommand {
+  private configManager: ConfigManager;
+
+  constructor() {
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  /**
+   * Run the tracking and structure pipeline of the active profile without
+   * writing anything, and show what a summary would include
+   */
+  public async execute(): Promise<void> {
+    try {
+      const workspaceRoots = this.configManager.getWorkspaceRoots();
+      if (workspaceRoots.length === 0) {
+        vscode.window.showErrorMessage(MESSAGES.NO_WORKSPACE);
+        return;
+      }
+
+      const config = this.configManager.getConfig();
+      const profile = this.configManager.getActiveProfile();
+
+      const report = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Previewing AI Context",
+          cancellable: true,
+        },
+        async (progress, token): Promise<PreviewReport | null> => {
+          const gitignoreMatcher = config.respectGitignore
+            ? new GitignoreMatcher(workspaceRoots.map((root) => root.path))
+            : null;
+          const structureSummarizer = new StructureSummarizer(
+            config.rules,
+            gitignoreMatcher
+          );
+          const fileTracker = new FileTracker(
+            config.rules,
+            gitignoreMatcher,
+            config.gitChanges
+          );
+          structureSummarizer.setProgress(progress, PROGRESS_SHARES.STRUCTURE);
+          fileTracker.setProgress(progress, PROGRESS_SHARES.FILES);
+          structureSummarizer.setCancellation(token);
+          fileTracker.setCancellation(token);
+
+          const structure = await structureSummarizer.generateStructure({
+            workspaceRoots,
+            limits: {
+              maxDepth: config.structureMaxDepth,
+              maxChildren: config.structureMaxChildren,
+            },
+            limitOverrides: config.structureLimitOverrides,
+          });
+          const structureText = await structureSummarizer.generateStructureText(
+            structure,
+            config.structureFormat
+          );
+
+          const entries = await fileTracker.previewFiles({
+            workspaceRoots,
+            tokenizer: config.tokenizer,
+            outputFormat: config.outputFormat,
+            outline: config.outline,
+            compression: {
+              passes: config.compression,
+              keepDocComments: config.compressionKeepDocComments,
+            },
+          });
+
+          await ContentCache.getInstance().save();
+
+          if (token.isCancellationRequested) {
+            return null;
+          }
+
+          const tokenCounter = new TokenCounter(config.tokenizer);
+          return {
+            profile,
+            tokenizer: tokenCounter.getMethod(),
+            maxTokens: config.maxTokens,
+            structure: {
+              ...structureSummarizer.countNodes(structure),
+              tokens: tokenCounter.count(structureText),
+            },
+            entries,
+          };
+        }
+      );
+
+      if (!report) {
+        vscode.window.showWarningMessage("Preview cancelled.");
+        return;
+      }
+
+      const document = await vscode.workspace.openTextDocument({
+        content: this.formatReport(report).join("\n"),
+        language: "markdown",
+      });
+      await vscode.window.showTextDocument(document);
+
+      const included = report.entries.filter(
+        (entry) => entry.decision === "included"
+      );
+      const tokens =
+        PreviewCommand.sumTokens(included) + report.structure.tokens;
+      const action = await vscode.window.showInformationMessage(
+        `Preview: ${included.length} files, ` +
+          `${PathUtils.formatFileSize(PreviewCommand.sumSizes(included))}, ` +
+          `~${TokenCounter.formatTokenCount(tokens)} tokens. Nothing was written.`,
+        LABELS.GENERATE,
+        LABELS.GENERATE_ONE_FILE,
+        LABELS.COPY_TO_CLIPBOARD
+      );
+
+      if (action === LABELS.GENERATE) {
+        await vscode.commands.executeCommand(
+          SummaryToolCommand.SUMMARIZE,
+          report.profile
+        );
+      } else if (action === LABELS.GENERATE_ONE_FILE) {
+        await vscode.commands.executeCommand(
+          SummaryToolCommand.SUMMARIZE_ONE_FILE,
+          report.profile
+        );
+      } else if (action === LABELS.COPY_TO_CLIPBOARD) {
+        await vscode.commands.executeCommand(
+          SummaryToolCommand.COPY_TO_CLIPBOARD
+        );
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error previewing context: ${error}`);
+      console.error("Preview command error:", error);
+    }
+  }
+
+  /**
+   * Markdown lines of the preview: totals per decision, then every
+   * candidate with the rules that matched it
+   */
+  private formatReport(report: PreviewReport): string[] {
+    const decisions = Object.keys(PREVIEW_DECISION_LABELS) as PreviewDecision[];
+    const byDecision = (decision: PreviewDecision) =>
+      report.entries.filter((entry) => entry.decision === decision);
+    const included = byDecision("included");
+    const totalTokens =
+      PreviewCommand.sumTokens(included) + report.structure.tokens;
+
+    const lines = [
+      "# Context Preview",
+      "",
+      `Profile: ${report.profile}`,
+      `Tokenizer: ${report.tokenizer}`,
+      `Structure: ${report.structure.files} files, ` +
+        `${report.structure.directories} folders ` +
+        `(${TokenCounter.formatTokenCount(report.structure.tokens)} tokens)`,
+      `Total tokens: ${TokenCounter.formatTokenCount(totalTokens)}` +
+        (report.maxTokens > 0
+          ? ` of ${TokenCounter.formatTokenCount(report.maxTokens)}` +
+            (totalTokens > report.maxTokens
+              ? ` (${MESSAGES.TOKEN_BUDGET_EXCEEDED})`
+              : "")
+          : ""),
+      "",
+      "| Decision | Files | Size |",
+      "| --- | ---: | ---: |",
+      ...decisions.map((decision) => {
+        const entries = byDecision(decision);
+        const folders = entries.filter((entry) => !entry.isFile).length;
+        const files =
+          folders > 0
+            ? `${entries.length - folders} (+${folders} folders)`
+            : `${entries.length}`;
+        return (
+          `| ${PREVIEW_DECISION_LABELS[decision]} | ${files} | ` +
+          `${PathUtils.formatFileSize(PreviewCommand.sumSizes(entries))} |`
+        );
+      }),
+      "",
+      "## Included",
+      "",
+      "| File | Size | Tokens | Matching rules |",
+      "| --- | ---: | ---: | --- |",
+      ...included.map(
+        (entry) =>
+          `| ${entry.relativePath}` +
+          (entry.detailLevel === "outline" ? " (outline)" : "") +
+          ` | ${PathUtils.formatFileSize(entry.size ?? 0)} | ${entry.tokens ?? 0} | ` +
+          `${PreviewCommand.formatPatterns(entry.matchedPatterns)} |`
+      ),
+    ];
+
+    const leftOut = report.entries.filter(
+      (entry) => entry.decision !== "included"
+    );
+    if (leftOut.length > 0) {
+      lines.push(
+        "",
+        "## Left out",
+        "",
+        "| Path | Decision | Size | Matching rules |",
+        "| --- | --- | ---: | --- |",
+        ...leftOut.map(
+          (entry) =>
+            `| ${entry.isFile ? entry.relativePath : `${entry.relativePath}/`} | ` +
+            `${PREVIEW_DECISION_LABELS[entry.decision]} | ` +
+            `${entry.size === undefined ? "" : PathUtils.formatFileSize(entry.size)} | ` +
+            `${PreviewCommand.formatPatterns(entry.matchedPatterns)} |`
+        )
+      );
+    }
+
+    return lines;
+  }
+
+  private static formatPatterns(patterns: string[]): string {
+    // "|" would end the table cell
+    return patterns
+      .map((pattern) => `\`${pattern.replace(/\|/g, "\\|")}\``)
+      .join(", ");
+  }
+
+  private static sumSizes(entries: PreviewEntry[]): number {
+    return entries.reduce((total, entry) => total + (entry.size ?? 0), 0);
+  }
+
+  private static sumTokens(entries: PreviewEntry[]): number {
+    return entries.reduce((total, entry) => total + (entry.tokens ?? 0), 0);
+  }
+}
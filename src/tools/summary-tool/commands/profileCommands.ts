@@ -0,0 +1,155 @@
+import * as vscode from "vscode";
+import { ConfigManager } from "../services/configManager";
+
+export class ProfileCommands {
+  private configManager: ConfigManager;
+
+  constructor() {
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  public async create(): Promise<void> {
+    try {
+      const name = await this.promptProfileName("Name of the new profile");
+      if (!name) {
+        return; // User cancelled
+      }
+
+      await this.configManager.createProfile(name);
+      vscode.window.setStatusBarMessage(
+        `Created and switched to profile: ${name}`
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error creating profile: ${error}`);
+      console.error("Create profile error:", error);
+    }
+  }
+
+  public async switch(): Promise<void> {
+    try {
+      const name = await this.pickProfile("Select the profile to switch to");
+      if (!name) {
+        return; // User cancelled
+      }
+
+      await this.configManager.switchProfile(name);
+      vscode.window.setStatusBarMessage(`Switched to profile: ${name}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error switching profile: ${error}`);
+      console.error("Switch profile error:", error);
+    }
+  }
+
+  public async duplicate(): Promise<void> {
+    try {
+      const source = await this.pickProfile("Select the profile to duplicate");
+      if (!source) {
+        return; // User cancelled
+      }
+
+      const name = await this.promptProfileName(
+        `Name of the copy of "${source}"`,
+        `${source} copy`
+      );
+      if (!name) {
+        return; // User cancelled
+      }
+
+      await this.configManager.duplicateProfile(source, name);
+      vscode.window.setStatusBarMessage(`Duplicated ${source} as ${name}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error duplicating profile: ${error}`);
+      console.error("Duplicate profile error:", error);
+    }
+  }
+
+  public async rename(): Promise<void> {
+    try {
+      const oldName = await this.pickProfile("Select the profile to rename");
+      if (!oldName) {
+        return; // User cancelled
+      }
+
+      const newName = await this.promptProfileName(
+        `New name for "${oldName}"`,
+        oldName,
+        oldName
+      );
+      if (!newName) {
+        return; // User cancelled
+      }
+
+      await this.configManager.renameProfile(oldName, newName);
+      vscode.window.setStatusBarMessage(`Renamed ${oldName} to ${newName}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error renaming profile: ${error}`);
+      console.error("Rename profile error:", error);
+    }
+  }
+
+  public async delete(): Promise<void> {
+    try {
+      const name = await this.pickProfile("Select the profile to delete");
+      if (!name) {
+        return; // User cancelled
+      }
+
+      const confirm = await vscode.window.showWarningMessage(
+        `Delete profile "${name}" and its rules?`,
+        { modal: true },
+        "Delete"
+      );
+      if (confirm !== "Delete") {
+        return;
+      }
+
+      await this.configManager.deleteProfile(name);
+      vscode.window.setStatusBarMessage(`Deleted profile: ${name}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error deleting profile: ${error}`);
+      console.error("Delete profile error:", error);
+    }
+  }
+
+  private async pickProfile(placeHolder: string): Promise<string | undefined> {
+    const activeProfile = this.configManager.getActiveProfile();
+    const picked = await vscode.window.showQuickPick(
+      this.configManager.getProfileNames().map((name) => ({
+        label: name,
+        description: name === activeProfile ? "active" : undefined,
+      })),
+      { placeHolder, ignoreFocusOut: true }
+    );
+
+    return picked?.label;
+  }
+
+  /**
+   * Ask for a profile name that is not taken, apart from currentName
+   * when renaming
+   */
+  private async promptProfileName(
+    prompt: string,
+    value?: string,
+    currentName?: string
+  ): Promise<string | undefined> {
+    const existingNames = this.configManager.getProfileNames();
+    const name = await vscode.window.showInputBox({
+      prompt,
+      value,
+      ignoreFocusOut: true,
+      validateInput: (input) => {
+        const trimmed = input.trim();
+        if (!trimmed) {
+          return "Profile name cannot be empty";
+        }
+        if (trimmed !== currentName && existingNames.includes(trimmed)) {
+          return `Profile "${trimmed}" already exists`;
+        }
+        return undefined;
+      },
+    });
+
+    return name?.trim();
+  }
+}
@@ -1,9 +1,25 @@
 import * as path from "path";
 import * as vscode from "vscode";
-import { LABELS, MESSAGES, OUTPUT_FILES, PROGRESS } from "../constants";
-import { SummaryResult } from "../models/types";
+import {
+  LABELS,
+  MESSAGES,
+  OUTPUT_FILES,
+  PROGRESS,
+  PROGRESS_SHARES,
+} from "../constants";
+import {
+  CancellationSignal,
+  ProfileSummaryResult,
+  StructureFormat,
+  SummaryResult,
+  WorkspaceRoot,
+} from "../models/types";
 import { ConfigManager } from "../services/configManager";
+import { ContentCache } from "../services/contentCache";
 import { FileTracker } from "../services/fileTracker";
+import { GitignoreMatcher } from "../services/gitignoreMatcher";
+import { SecretRedactor } from "../services/secretRedactor";
+import { StructureRenderer } from "../services/structureRenderer";
 import { StructureSummarizer } from "../services/structureSummarizer";
 import { PathUtils } from "../utils/pathUtils";
 
@@ -14,15 +30,26 @@ export class SummaryCommand {
     this.configManager = ConfigManager.getInstance();
   }
 
-  public async execute(): Promise<void> {
+  /**
+   * Summarize the active profile, or the given profiles side by side
+   */
+  public async execute(profiles?: string | string[]): Promise<void> {
     try {
       // Check if workspace is open
-      const workspacePath = this.configManager.getWorkspacePath();
-      if (!workspacePath) {
+      const workspaceRoots = this.configManager.getWorkspaceRoots();
+      if (workspaceRoots.length === 0) {
         vscode.window.showErrorMessage(MESSAGES.NO_WORKSPACE);
         return;
       }
 
+      const profileNames =
+        typeof profiles === "string"
+          ? [profiles]
+          : (profiles ?? (await this.configManager.showSelectProfilesDialog()));
+      if (!profileNames || profileNames.length === 0) {
+        return; // User cancelled
+      }
+
       // Get or prompt for target folder
       let targetFolder = await this.configManager.getTargetFolder();
       const defaultTargetFolder =
@@ -81,6 +108,12 @@ export class SummaryCommand {
         return; // User cancelled
       }
 
+      const structureFormat =
+        await this.configManager.showSelectStructureFormatDialog();
+      if (!structureFormat) {
+        return; // User cancelled
+      }
+
       // Check if target folder empty
       if (!PathUtils.isDirectoryEmpty(targetFolder)) {
         const confirm = await vscode.window.showInformationMessage(
@@ -114,16 +147,55 @@ export class SummaryCommand {
         {
           location: vscode.ProgressLocation.Notification,
           title: "Summarizing Project",
-          cancellable: false,
+          cancellable: true,
         },
-        async (progress) => {
-          const result = await this.performSummary(
-            workspacePath,
+        async (progress, token) => {
+          if (profileNames.length === 1) {
+            const result = await this.performSummary(
+              workspaceRoots,
+              targetFolder,
+              this.configManager.getProfileRules(profileNames[0]),
+              structureFormat,
+              progress,
+              token
+            );
+            void this.showResults(result).catch((error) =>
+              this.reportResultsError(error)
+            );
+            return;
+          }
+
+          // Several profiles are written side by side into sub-folders
+          const results: ProfileSummaryResult[] = [];
+          for (const profile of profileNames) {
+            if (token.isCancellationRequested) {
+              break;
+            }
+            progress.report({ message: `Profile: ${profile}` });
+            const profileFolder = path.join(
+              targetFolder,
+              PathUtils.sanitizeFileName(profile)
+            );
+            PathUtils.ensureDirectoryExists(profileFolder);
+
+            results.push({
+              profile,
+              result: await this.performSummary(
+                workspaceRoots,
+                profileFolder,
+                this.configManager.getProfileRules(profile),
+                structureFormat,
+                progress,
+                token,
+                100 / profileNames.length
+              ),
+            });
+          }
+          void this.showProfileResults(
+            results,
             targetFolder,
-            progress
-          );
-
-          void this.showResults(result);
+            token.isCancellationRequested
+          ).catch((error) => this.reportResultsError(error));
         }
       );
     } catch (error) {
@@ -132,6 +204,15 @@ export class SummaryCommand {
     }
   }
 
+  /**
+   * Results are shown once the progress notification has closed, so their
+   * errors are reported here rather than by the command
+   */
+  private reportResultsError(error: unknown): void {
+    vscode.window.showErrorMessage(`Error showing summary results: ${error}`);
+    console.error("Summary results error:", error);
+  }
+
   private getTargetFolder(): string | null {
     try {
       const config = this.configManager.getConfig();
@@ -142,56 +223,110 @@ export class SummaryCommand {
     }
   }
 
-  private async performSummary(
-    workspacePath: string,
+  /**
+   * Write the structure and copy the tracked files. On cancellation the
+   * files copied so far stay, listed in the manifest, and the result is
+   * marked as cancelled. progressShare is the percentage of the progress
+   * bar this run fills.
+   */
+  public async performSummary(
+    workspaceRoots: WorkspaceRoot[],
     targetFolder: string,
-    progress: vscode.Progress<{ message?: string; increment?: number }>
+    rules: string[],
+    structureFormat: StructureFormat,
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    cancellation?: CancellationSignal,
+    progressShare: number = 100
   ): Promise<SummaryResult> {
     const config = this.configManager.getConfig();
+    const contentCache = ContentCache.getInstance();
+    contentCache.resetStats();
 
     // Initialize services
-    const structureSummarizer = new StructureSummarizer(config.ignoreStructure);
-    const fileTracker = new FileTracker(config.untrack);
+    const gitignoreMatcher = config.respectGitignore
+      ? new GitignoreMatcher(workspaceRoots.map((root) => root.path))
+      : null;
+    const structureSummarizer = new StructureSummarizer(
+      rules,
+      gitignoreMatcher
+    );
+    const fileTracker = new FileTracker(
+      rules,
+      gitignoreMatcher,
+      config.gitChanges
+    );
 
     // Set progress reporters
-    structureSummarizer.setProgress(progress);
-    fileTracker.setProgress(progress);
+    structureSummarizer.setProgress(
+      progress,
+      (progressShare * PROGRESS_SHARES.STRUCTURE) / 100
+    );
+    fileTracker.setProgress(
+      progress,
+      (progressShare * PROGRESS_SHARES.FILES) / 100
+    );
+    if (cancellation) {
+      structureSummarizer.setCancellation(cancellation);
+      fileTracker.setCancellation(cancellation);
+    }
 
     // Phase 1: Generate structure summary
-    progress.report({
-      message: PROGRESS.GENERATING_STRUCTURE,
-      increment: 0,
-    });
+    progress.report({ message: PROGRESS.GENERATING_STRUCTURE });
 
     const structure = await structureSummarizer.generateStructure({
-      workspacePath,
-      ignoreStructurePatterns: config.ignoreStructure,
+      workspaceRoots,
+      limits: {
+        maxDepth: config.structureMaxDepth,
+        maxChildren: config.structureMaxChildren,
+      },
+      limitOverrides: config.structureLimitOverrides,
     });
 
+    // A partial structure is not saved over a complete one
+    if (cancellation?.isCancellationRequested) {
+      return {
+        structure,
+        trackedFiles: [],
+        copiedFiles: 0,
+        skippedFiles: 0,
+        totalFiles: 0,
+        targetPath: targetFolder,
+        cancelled: true,
+        processedFiles: 0,
+      };
+    }
+
     const structureFilePath = path.join(
       targetFolder,
-      OUTPUT_FILES.PROJECT_STRUCTURE
+      new StructureRenderer(structureFormat).getFileName()
+    );
+    await structureSummarizer.saveStructureToFile(
+      structure,
+      structureFilePath,
+      structureFormat
     );
-    await structureSummarizer.saveStructureToFile(structure, structureFilePath);
 
-    progress.report({ message: PROGRESS.STRUCTURE_COMPLETE, increment: 30 });
+    progress.report({ message: PROGRESS.STRUCTURE_COMPLETE });
 
     // Phase 2: Track and copy files
-    progress.report({ message: PROGRESS.PROCESSING_FILES, increment: 30 });
+    progress.report({ message: PROGRESS.PROCESSING_FILES });
 
     const fileResults = await fileTracker.trackAndCopyFiles({
-      workspacePath,
+      workspaceRoots,
       targetPath: targetFolder,
-      trackPatterns: config.track,
-      untrackPatterns: config.untrack,
+      copyLayout: config.copyLayout,
+      outline: config.outline,
+      redaction: {
+        mode: config.redaction,
+        detectors: config.redactionDetectors,
+        patterns: config.redactionPatterns,
+      },
     });
 
-    progress.report({ message: PROGRESS.COPYING_COMPLETE, increment: 60 });
+    progress.report({ message: PROGRESS.COPYING_COMPLETE });
+    progress.report({ message: PROGRESS.ALL_FINISHED });
 
-    // Phase 3: Save structure summary to file
-    progress.report({ message: PROGRESS.SAVING_STRUCTURE, increment: 80 });
-
-    progress.report({ message: PROGRESS.ALL_FINISHED, increment: 100 });
+    await contentCache.save();
 
     return {
       structure,
@@ -200,16 +335,52 @@ export class SummaryCommand {
       skippedFiles: fileResults.skippedFiles,
       totalFiles: fileResults.totalFiles,
       targetPath: targetFolder,
+      structurePath: structureFilePath,
+      patternMatches: fileResults.patternMatches,
+      gitChanges: fileResults.gitChanges,
+      outlinedFiles: fileResults.outlinedFiles,
+      redactions: fileResults.redactions,
+      cancelled: fileResults.cancelled,
+      processedFiles: fileResults.processedFiles,
+      cacheStats: contentCache.getStats(),
     };
   }
 
   private async showResults(result: SummaryResult): Promise<void> {
-    const message =
+    if (result.cancelled) {
+      void this.showCancelled(result);
+      return;
+    }
+
+    let message =
       `🎉 Project summary completed! ` +
       `Files copied: ${result.copiedFiles}, ` +
       `Files skipped: ${result.skippedFiles}, ` +
       `Total files: ${result.totalFiles}.`;
 
+    if (result.patternMatches && result.patternMatches.length > 0) {
+      message += ` ${FileTracker.formatPatternMatches(result.patternMatches)}.`;
+    }
+
+    if (result.gitChanges && result.gitChanges.length > 0) {
+      message += ` ${FileTracker.formatGitChanges(result.gitChanges)}.`;
+    }
+
+    if (result.outlinedFiles && result.outlinedFiles.length > 0) {
+      message += ` ${result.outlinedFiles.length} files were reduced to outlines.`;
+    }
+
+    const cacheHits = result.cacheStats
+      ? ContentCache.formatStats(result.cacheStats)
+      : "";
+    if (cacheHits) {
+      message += ` Cache hits: ${cacheHits}.`;
+    }
+
+    if (result.redactions && result.redactions.length > 0) {
+      message += ` Redacted ${SecretRedactor.formatFindings(result.redactions)} (see ${OUTPUT_FILES.REDACTION_REPORT}).`;
+    }
+
     const action = await vscode.window.showInformationMessage(
       message,
       LABELS.OPEN_FOLDER,
@@ -220,15 +391,60 @@ export class SummaryCommand {
 
     if (action === LABELS.OPEN_FOLDER) {
       await vscode.env.openExternal(vscode.Uri.file(targetPath));
-    } else if (action === LABELS.OPEN_STRUCTURE) {
-      const structurePath = path.join(
-        targetPath,
-        OUTPUT_FILES.PROJECT_STRUCTURE
-      );
+    } else if (action === LABELS.OPEN_STRUCTURE && result.structurePath) {
       await vscode.commands.executeCommand(
         "vscode.open",
-        vscode.Uri.file(structurePath)
+        vscode.Uri.file(result.structurePath)
       );
     }
   }
+
+  /**
+   * Report how far a cancelled run got
+   */
+  private async showCancelled(result: SummaryResult): Promise<void> {
+    const message =
+      result.processedFiles && result.processedFiles > 0
+        ? `Summary cancelled after ${result.processedFiles} of ` +
+          `${result.totalFiles} files (${result.copiedFiles} copied, ` +
+          `${result.skippedFiles} unchanged or failed). ` +
+          `${OUTPUT_FILES.MANIFEST} lists the files that were copied.`
+        : "Summary cancelled before any files were copied.";
+
+    const action = await vscode.window.showWarningMessage(
+      message,
+      LABELS.OPEN_FOLDER
+    );
+    if (action === LABELS.OPEN_FOLDER) {
+      await vscode.env.openExternal(vscode.Uri.file(result.targetPath));
+    }
+  }
+
+  private async showProfileResults(
+    results: ProfileSummaryResult[],
+    targetFolder: string,
+    isCancelled: boolean
+  ): Promise<void> {
+    const summaries = results.map(({ profile, result }) =>
+      result.cancelled
+        ? `${profile} (cancelled after ${result.processedFiles ?? 0} files)`
+        : `${profile} (${result.trackedFiles.length} files)`
+    );
+
+    const showMessage = isCancelled
+      ? vscode.window.showWarningMessage
+      : vscode.window.showInformationMessage;
+    const action = await showMessage(
+      isCancelled
+        ? `Summary cancelled. Profiles written into sub-folders: ` +
+            `${summaries.join(", ") || "none"}.`
+        : `🎉 Summarized ${results.length} profiles into sub-folders: ` +
+            `${summaries.join(", ")}.`,
+      LABELS.OPEN_FOLDER
+    );
+
+    if (action === LABELS.OPEN_FOLDER) {
+      await vscode.env.openExternal(vscode.Uri.file(targetFolder));
+    }
+  }
 }
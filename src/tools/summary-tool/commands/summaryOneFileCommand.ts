@@ -1,10 +1,33 @@
 import * as path from "path";
 import * as vscode from "vscode";
-import { LABELS, MESSAGES, OUTPUT_FILES, PROGRESS } from "../constants";
-import { SummaryResult } from "../models/types";
+import {
+  LABELS,
+  MESSAGES,
+  OUTPUT_FILES,
+  OUTPUT_FORMAT_LABELS,
+  PROGRESS,
+  PROGRESS_SHARES,
+  TOKENIZER,
+} from "../constants";
+import {
+  CancellationSignal,
+  OutputFormat,
+  ProfileSummaryResult,
+  SkippedFile,
+  StructureFormat,
+  SummaryResult,
+  TokenUsage,
+  WorkspaceRoot,
+} from "../models/types";
 import { ConfigManager } from "../services/configManager";
+import { ContentCache } from "../services/contentCache";
 import { FileTracker } from "../services/fileTracker";
+import { GitignoreMatcher } from "../services/gitignoreMatcher";
+import { OutputFormatter } from "../services/outputFormatter";
+import { SecretRedactor } from "../services/secretRedactor";
+import { StructureRenderer } from "../services/structureRenderer";
 import { StructureSummarizer } from "../services/structureSummarizer";
+import { TokenCounter } from "../services/tokenCounter";
 import { PathUtils } from "../utils/pathUtils";
 
 export class SummaryOneFileCommand {
@@ -14,15 +37,26 @@ export class SummaryOneFileCommand {
     this.configManager = ConfigManager.getInstance();
   }
 
-  public async execute(): Promise<void> {
+  /**
+   * Summarize the active profile, or the given profiles side by side
+   */
+  public async execute(profiles?: string | string[]): Promise<void> {
     try {
       // Check if workspace is open
-      const workspacePath = this.configManager.getWorkspacePath();
-      if (!workspacePath) {
+      const workspaceRoots = this.configManager.getWorkspaceRoots();
+      if (workspaceRoots.length === 0) {
         vscode.window.showErrorMessage(MESSAGES.NO_WORKSPACE);
         return;
       }
 
+      const profileNames =
+        typeof profiles === "string"
+          ? [profiles]
+          : (profiles ?? (await this.configManager.showSelectProfilesDialog()));
+      if (!profileNames || profileNames.length === 0) {
+        return; // User cancelled
+      }
+
       // Get or prompt for target folder
       let targetFolder = await this.configManager.getTargetFolder();
       const defaultTargetFolder =
@@ -81,20 +115,73 @@ export class SummaryOneFileCommand {
         return; // User cancelled
       }
 
+      const outputFormat = await this.pickOutputFormat();
+      if (!outputFormat) {
+        return; // User cancelled
+      }
+
+      const structureFormat =
+        await this.configManager.showSelectStructureFormatDialog();
+      if (!structureFormat) {
+        return; // User cancelled
+      }
+
       // Show progress and execute summary
       await vscode.window.withProgress(
         {
           location: vscode.ProgressLocation.Notification,
           title: "Generating Single File Summary",
-          cancellable: false,
+          cancellable: true,
         },
-        async (progress) => {
-          const result = await this.performSummary(
-            workspacePath,
+        async (progress, token) => {
+          if (profileNames.length === 1) {
+            const result = await this.performSummary(
+              workspaceRoots,
+              targetFolder,
+              this.configManager.getProfileRules(profileNames[0]),
+              outputFormat,
+              structureFormat,
+              progress,
+              token
+            );
+            void this.showResults(result).catch((error) =>
+              this.reportResultsError(error)
+            );
+            return;
+          }
+
+          // Several profiles are written side by side into sub-folders
+          const results: ProfileSummaryResult[] = [];
+          for (const profile of profileNames) {
+            if (token.isCancellationRequested) {
+              break;
+            }
+            progress.report({ message: `Profile: ${profile}` });
+            const profileFolder = path.join(
+              targetFolder,
+              PathUtils.sanitizeFileName(profile)
+            );
+            PathUtils.ensureDirectoryExists(profileFolder);
+
+            results.push({
+              profile,
+              result: await this.performSummary(
+                workspaceRoots,
+                profileFolder,
+                this.configManager.getProfileRules(profile),
+                outputFormat,
+                structureFormat,
+                progress,
+                token,
+                100 / profileNames.length
+              ),
+            });
+          }
+          void this.showProfileResults(
+            results,
             targetFolder,
-            progress
-          );
-          void this.showResults(result);
+            token.isCancellationRequested
+          ).catch((error) => this.reportResultsError(error));
         }
       );
     } catch (error) {
@@ -103,6 +190,39 @@ export class SummaryOneFileCommand {
     }
   }
 
+  /**
+   * Ask for the output format of this run, offering the configured one first
+   */
+  private async pickOutputFormat(): Promise<OutputFormat | undefined> {
+    const configuredFormat = this.configManager.getConfig().outputFormat;
+    const formats = (Object.keys(OUTPUT_FORMAT_LABELS) as OutputFormat[]).sort(
+      (a, b) => Number(b === configuredFormat) - Number(a === configuredFormat)
+    );
+
+    const picked = await vscode.window.showQuickPick(
+      formats.map((format) => ({
+        label: OUTPUT_FORMAT_LABELS[format],
+        description: new OutputFormatter(format).getOutputFileName(),
+        format,
+      })),
+      {
+        placeHolder: "Select output format for the combined file",
+        ignoreFocusOut: true,
+      }
+    );
+
+    return picked?.format;
+  }
+
+  /**
+   * Results are shown once the progress notification has closed, so their
+   * errors are reported here rather than by the command
+   */
+  private reportResultsError(error: unknown): void {
+    vscode.window.showErrorMessage(`Error showing summary results: ${error}`);
+    console.error("Summary results error:", error);
+  }
+
   private getTargetFolder(): string | null {
     try {
       const config = this.configManager.getConfig();
@@ -113,80 +233,212 @@ export class SummaryOneFileCommand {
     }
   }
 
-  private async performSummary(
-    workspacePath: string,
+  /**
+   * Write the structure and the combined file. On cancellation the partial
+   * combined file is removed and the result is marked as cancelled.
+   * progressShare is the percentage of the progress bar this run fills.
+   */
+  public async performSummary(
+    workspaceRoots: WorkspaceRoot[],
     targetFolder: string,
-    progress: vscode.Progress<{ message?: string; increment?: number }>
+    rules: string[],
+    outputFormat: OutputFormat,
+    structureFormat: StructureFormat,
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    cancellation?: CancellationSignal,
+    progressShare: number = 100
   ): Promise<SummaryResult> {
     const config = this.configManager.getConfig();
+    const contentCache = ContentCache.getInstance();
+    contentCache.resetStats();
 
     // Initialize services
-    const structureSummarizer = new StructureSummarizer(config.ignoreStructure);
-    const fileTracker = new FileTracker(config.untrack);
+    const gitignoreMatcher = config.respectGitignore
+      ? new GitignoreMatcher(workspaceRoots.map((root) => root.path))
+      : null;
+    const structureSummarizer = new StructureSummarizer(
+      rules,
+      gitignoreMatcher
+    );
+    const fileTracker = new FileTracker(
+      rules,
+      gitignoreMatcher,
+      config.gitChanges
+    );
 
     // Set progress reporters
-    structureSummarizer.setProgress(progress);
-    fileTracker.setProgress(progress);
+    structureSummarizer.setProgress(
+      progress,
+      (progressShare * PROGRESS_SHARES.STRUCTURE) / 100
+    );
+    fileTracker.setProgress(
+      progress,
+      (progressShare * PROGRESS_SHARES.FILES) / 100
+    );
+    if (cancellation) {
+      structureSummarizer.setCancellation(cancellation);
+      fileTracker.setCancellation(cancellation);
+    }
 
     // Phase 1: Generate structure summary
-    progress.report({
-      message: PROGRESS.GENERATING_STRUCTURE,
-      increment: 0,
-    });
+    progress.report({ message: PROGRESS.GENERATING_STRUCTURE });
 
     const structure = await structureSummarizer.generateStructure({
-      workspacePath,
-      ignoreStructurePatterns: config.ignoreStructure,
+      workspaceRoots,
+      limits: {
+        maxDepth: config.structureMaxDepth,
+        maxChildren: config.structureMaxChildren,
+      },
+      limitOverrides: config.structureLimitOverrides,
     });
 
+    // A partial structure is not saved over a complete one
+    if (cancellation?.isCancellationRequested) {
+      return {
+        structure,
+        trackedFiles: [],
+        copiedFiles: 0,
+        skippedFiles: 0,
+        totalFiles: 0,
+        targetPath: targetFolder,
+        cancelled: true,
+        processedFiles: 0,
+      };
+    }
+
     // Save structure to separate JSON file
     const structureFilePath = path.join(
       targetFolder,
-      OUTPUT_FILES.PROJECT_STRUCTURE
+      new StructureRenderer(structureFormat).getFileName()
+    );
+    await structureSummarizer.saveStructureToFile(
+      structure,
+      structureFilePath,
+      structureFormat
     );
-    await structureSummarizer.saveStructureToFile(structure, structureFilePath);
 
-    progress.report({ message: PROGRESS.STRUCTURE_COMPLETE, increment: 30 });
+    progress.report({ message: PROGRESS.STRUCTURE_COMPLETE });
 
     // Phase 2: Append tracked files content to separate file
-    progress.report({ message: PROGRESS.PROCESSING_FILES, increment: 30 });
+    progress.report({ message: PROGRESS.PROCESSING_FILES });
 
     const combinedFilePath = path.join(
       targetFolder,
-      OUTPUT_FILES.COMBINED_FILES
+      new OutputFormatter(outputFormat).getOutputFileName()
     );
     const fileResults = await fileTracker.trackAndWriteToSingleFile({
-      workspacePath,
+      workspaceRoots,
       targetPath: combinedFilePath,
-      trackPatterns: config.track,
-      untrackPatterns: config.untrack,
+      tokenizer: config.tokenizer,
+      maxTokens: config.maxTokens,
+      tokenBudgetMode: config.tokenBudgetMode,
+      outputFormat,
+      structureText: await structureSummarizer.generateStructureText(
+        structure,
+        structureFormat
+      ),
+      structureFormat,
+      diffMode: config.diffMode,
+      diffBase: config.diffBase,
+      diffContextLines: config.diffContextLines,
+      outline: config.outline,
+      compression: {
+        passes: config.compression,
+        keepDocComments: config.compressionKeepDocComments,
+      },
+      redaction: {
+        mode: config.redaction,
+        detectors: config.redactionDetectors,
+        patterns: config.redactionPatterns,
+      },
     });
 
-    progress.report({
-      message: PROGRESS.GENERATION_COMPLETE,
-      increment: 100,
-    });
+    progress.report({ message: PROGRESS.GENERATION_COMPLETE });
+
+    await contentCache.save();
 
     return {
       structure,
       trackedFiles: fileResults.trackedFiles,
-      copiedFiles: 2, // We generated structure.json + combined_files.txt
-      skippedFiles: 0,
+      copiedFiles: 2, // We generated the structure file + the combined file
+      skippedFiles: fileResults.skippedFileDetails.length,
       totalFiles: fileResults.totalFiles,
       targetPath: combinedFilePath,
+      structurePath: structureFilePath,
+      tokenUsage: fileResults.tokenUsage,
+      patternMatches: fileResults.patternMatches,
+      gitChanges: fileResults.gitChanges,
+      skippedFileDetails: fileResults.skippedFileDetails,
+      outlinedFiles: fileResults.outlinedFiles,
+      compression: fileResults.compression ?? undefined,
+      redactions: fileResults.redactions,
+      cancelled: fileResults.cancelled,
+      processedFiles: fileResults.processedFiles,
+      cacheStats: contentCache.getStats(),
     };
   }
 
   private async showResults(result: SummaryResult): Promise<void> {
-    const message =
+    if (result.cancelled) {
+      vscode.window.showWarningMessage(
+        result.processedFiles && result.processedFiles > 0
+          ? `Single file summary cancelled after ${result.processedFiles} of ` +
+              `${result.totalFiles} files. The partial combined file was removed.`
+          : "Single file summary cancelled before any files were combined."
+      );
+      return;
+    }
+
+    const tokenUsage = result.tokenUsage;
+    let message =
       `🎉 Single file summary completed! ` +
-      `Generated structure.json and combined ${result.totalFiles} files.`;
+      `Generated ${path.basename(result.structurePath ?? "")} and combined ${result.trackedFiles.length} files.`;
+
+    if (result.patternMatches && result.patternMatches.length > 0) {
+      message += ` ${FileTracker.formatPatternMatches(result.patternMatches)}.`;
+    }
+
+    if (result.gitChanges && result.gitChanges.length > 0) {
+      message += ` ${FileTracker.formatGitChanges(result.gitChanges)}.`;
+    }
+
+    const cacheHits = result.cacheStats
+      ? ContentCache.formatStats(result.cacheStats)
+      : "";
+    if (cacheHits) {
+      message += ` Cache hits: ${cacheHits}.`;
+    }
 
-    const action = await vscode.window.showInformationMessage(
+    if (result.outlinedFiles && result.outlinedFiles.length > 0) {
+      message += ` ${result.outlinedFiles.length} files were reduced to outlines.`;
+    }
+
+    if (result.compression) {
+      message += ` Compression: ${FileTracker.formatCompression(result.compression)}.`;
+    }
+
+    if (result.redactions && result.redactions.length > 0) {
+      message += ` Redacted ${SecretRedactor.formatFindings(result.redactions)} (see ${OUTPUT_FILES.REDACTION_REPORT}).`;
+    }
+
+    if (result.skippedFiles > 0) {
+      message += ` ${result.skippedFiles} files were skipped or replaced by placeholders (see the token report).`;
+    }
+
+    if (tokenUsage) {
+      message += ` ${this.formatTokenSummary(tokenUsage)}`;
+    }
+
+    const showMessage = tokenUsage?.budgetExceeded
+      ? vscode.window.showWarningMessage
+      : vscode.window.showInformationMessage;
+
+    const action = await showMessage(
       message,
       LABELS.OPEN_COMBINED_FILE,
       LABELS.OPEN_STRUCTURE,
-      LABELS.OPEN_FOLDER
+      LABELS.OPEN_FOLDER,
+      LABELS.SHOW_TOKEN_REPORT
     );
 
     if (action === LABELS.OPEN_COMBINED_FILE) {
@@ -194,19 +446,132 @@ export class SummaryOneFileCommand {
         "vscode.open",
         vscode.Uri.file(result.targetPath)
       );
-    } else if (action === LABELS.OPEN_STRUCTURE) {
-      const folderPath = PathUtils.getDirName(result.targetPath);
-      const structurePath = path.join(
-        folderPath,
-        OUTPUT_FILES.PROJECT_STRUCTURE
-      );
+    } else if (action === LABELS.OPEN_STRUCTURE && result.structurePath) {
       await vscode.commands.executeCommand(
         "vscode.open",
-        vscode.Uri.file(structurePath)
+        vscode.Uri.file(result.structurePath)
       );
     } else if (action === LABELS.OPEN_FOLDER) {
       const folderPath = PathUtils.getDirName(result.targetPath);
       await vscode.env.openExternal(vscode.Uri.file(folderPath));
+    } else if (action === LABELS.SHOW_TOKEN_REPORT && tokenUsage) {
+      await this.showTokenReport(
+        tokenUsage,
+        result.skippedFileDetails ?? [],
+        result.outlinedFiles ?? []
+      );
+    }
+  }
+
+  private formatTokenSummary(tokenUsage: TokenUsage): string {
+    const topFiles = [...tokenUsage.files]
+      .sort((a, b) => b.tokens - a.tokens)
+      .slice(0, TOKENIZER.TOP_FILES_IN_MESSAGE)
+      .map(
+        (file) =>
+          `${path.basename(file.relativePath)} ` +
+          TokenCounter.formatTokenCount(file.tokens)
+      );
+
+    let summary = `Total tokens: ${TokenCounter.formatTokenCount(
+      tokenUsage.totalTokens
+    )}`;
+    if (topFiles.length > 0) {
+      summary += ` (largest: ${topFiles.join(", ")})`;
+    }
+    summary += ".";
+
+    if (tokenUsage.budgetExceeded) {
+      summary +=
+        ` ${MESSAGES.TOKEN_BUDGET_EXCEEDED} ` +
+        `(${TokenCounter.formatTokenCount(tokenUsage.maxTokens)})`;
+      summary +=
+        tokenUsage.omittedFiles.length > 0
+          ? `, ${tokenUsage.omittedFiles.length} files omitted.`
+          : ".";
+    }
+
+    return summary;
+  }
+
+  private async showTokenReport(
+    tokenUsage: TokenUsage,
+    skippedFileDetails: SkippedFile[],
+    outlinedFiles: string[]
+  ): Promise<void> {
+    const lines = [
+      "# Token Report",
+      "",
+      `Tokenizer: ${
+        tokenUsage.method === "mixed"
+          ? "cl100k, estimated for files it could not encode"
+          : tokenUsage.method
+      }`,
+      `Total tokens: ${tokenUsage.totalTokens}`,
+      `Budget: ${tokenUsage.maxTokens > 0 ? tokenUsage.maxTokens : "none"}`,
+      "",
+      "| File | Tokens |",
+      "| --- | ---: |",
+      ...tokenUsage.files.map((file) => {
+        const label = outlinedFiles.includes(file.relativePath)
+          ? `${file.relativePath} (outline)`
+          : file.relativePath;
+        return `| ${label} | ${file.tokens} |`;
+      }),
+    ];
+
+    if (tokenUsage.omittedFiles.length > 0) {
+      lines.push(
+        "",
+        "## Omitted (over budget)",
+        "",
+        ...tokenUsage.omittedFiles.map((file) => `- ${file}`)
+      );
+    }
+
+    if (skippedFileDetails.length > 0) {
+      lines.push(
+        "",
+        "## Skipped",
+        "",
+        ...skippedFileDetails.map(
+          (file) => `- ${file.relativePath}: ${file.reason}`
+        )
+      );
+    }
+
+    const document = await vscode.workspace.openTextDocument({
+      content: lines.join("\n"),
+      language: "markdown",
+    });
+    await vscode.window.showTextDocument(document);
+  }
+
+  private async showProfileResults(
+    results: ProfileSummaryResult[],
+    targetFolder: string,
+    isCancelled: boolean
+  ): Promise<void> {
+    const summaries = results.map(({ profile, result }) =>
+      result.cancelled
+        ? `${profile} (cancelled, combined file removed)`
+        : `${profile} (${result.trackedFiles.length} files)`
+    );
+
+    const showMessage = isCancelled
+      ? vscode.window.showWarningMessage
+      : vscode.window.showInformationMessage;
+    const action = await showMessage(
+      isCancelled
+        ? `Summary cancelled. Profiles written into sub-folders: ` +
+            `${summaries.join(", ") || "none"}.`
+        : `🎉 Summarized ${results.length} profiles into sub-folders: ` +
+            `${summaries.join(", ")}.`,
+      LABELS.OPEN_FOLDER
+    );
+
+    if (action === LABELS.OPEN_FOLDER) {
+      await vscode.env.openExternal(vscode.Uri.file(targetFolder));
     }
   }
 }
@@ -0,0 +1,274 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { WATCH } from "../constants";
+import { PKG_NAME, SummaryToolCommand } from "../models/types";
+import { ConfigManager } from "../services/configManager";
+import { ExclusionMatcher } from "../services/exclusionMatcher";
+import { PathUtils } from "../utils/pathUtils";
+import { SummaryCommand } from "./summaryCommand";
+import { SummaryOneFileCommand } from "./summaryOneFileCommand";
+
+/**
+ * Watch mode: regenerate the outputs in the background whenever tracked
+ * files change or files are created/deleted in the workspace
+ */
+export class WatchCommand implements vscode.Disposable {
+  private configManager: ConfigManager;
+  private summaryCommand: SummaryCommand;
+  private summaryOneFileCommand: SummaryOneFileCommand;
+  private statusBarItem: vscode.StatusBarItem;
+  private watchers: vscode.Disposable[] = [];
+  private configListener: vscode.Disposable | undefined;
+  private ruleMatcher: ExclusionMatcher = new ExclusionMatcher([]);
+  private targetFolder: string = "";
+  private debounceTimer: NodeJS.Timeout | undefined;
+  private isRegenerating: boolean = false;
+  private pendingRegeneration: boolean = false;
+
+  constructor(
+    summaryCommand: SummaryCommand,
+    summaryOneFileCommand: SummaryOneFileCommand
+  ) {
+    this.configManager = ConfigManager.getInstance();
+    this.summaryCommand = summaryCommand;
+    this.summaryOneFileCommand = summaryOneFileCommand;
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left
+    );
+    this.statusBarItem.command = SummaryToolCommand.TOGGLE_WATCH;
+  }
+
+  public isWatching(): boolean {
+    return this.configListener !== undefined;
+  }
+
+  public async toggle(): Promise<void> {
+    try {
+      if (this.isWatching()) {
+        this.stop();
+        vscode.window.setStatusBarMessage("AI context watch mode stopped");
+      } else {
+        await this.start();
+        vscode.window.setStatusBarMessage("AI context watch mode started");
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error toggling watch mode: ${error}`);
+      console.error("Toggle watch error:", error);
+    }
+  }
+
+  private async start(): Promise<void> {
+    if (this.configManager.getWorkspaceRoots().length === 0) {
+      throw new Error("No workspace folder is open");
+    }
+
+    // Watch mode never prompts, so fall back to the default target folder
+    this.targetFolder =
+      this.configManager.getTargetFolder() ||
+      (await this.configManager.updateTargetFolderToDefaultFolder());
+
+    this.createWatchers();
+
+    // Rules or output settings changed: watch the new set and regenerate
+    this.configListener = vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration(PKG_NAME)) {
+        this.targetFolder =
+          this.configManager.getTargetFolder() || this.targetFolder;
+        this.createWatchers();
+        this.scheduleRegeneration();
+      }
+    });
+
+    this.updateStatusBar("$(sync~spin)", "Watching, generating…");
+    this.scheduleRegeneration();
+  }
+
+  private stop(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = undefined;
+    }
+    this.disposeWatchers();
+    this.configListener?.dispose();
+    this.configListener = undefined;
+    this.pendingRegeneration = false;
+    this.statusBarItem.hide();
+  }
+
+  /**
+   * One watcher per include rule for content changes, plus one for the
+   * whole workspace that reports creates and deletes (and changes when
+   * git change sources are tracked)
+   */
+  private createWatchers(): void {
+    this.disposeWatchers();
+
+    const { rules, gitChanges } = this.configManager.getConfig();
+    this.ruleMatcher = new ExclusionMatcher(rules);
+
+    for (const root of this.configManager.getWorkspaceRoots()) {
+      for (const pattern of this.ruleMatcher.getIncludePatterns()) {
+        const globPattern = this.getWatchPattern(root.name, root.path, pattern);
+        if (!globPattern) {
+          continue;
+        }
+
+        const watcher = vscode.workspace.createFileSystemWatcher(
+          new vscode.RelativePattern(root.path, globPattern)
+        );
+        watcher.onDidChange((uri) => this.onFileEvent(uri));
+        watcher.onDidCreate((uri) => this.onFileEvent(uri));
+        watcher.onDidDelete((uri) => this.onFileEvent(uri));
+        this.watchers.push(watcher);
+      }
+
+      // With git change sources any edit can change the tracked set
+      const structureWatcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(root.path, "**/*"),
+        false,
+        gitChanges.length === 0,
+        false
+      );
+      structureWatcher.onDidCreate((uri) => this.onFileEvent(uri));
+      structureWatcher.onDidChange((uri) => this.onFileEvent(uri));
+      structureWatcher.onDidDelete((uri) => this.onFileEvent(uri));
+      this.watchers.push(structureWatcher);
+    }
+  }
+
+  /**
+   * Glob to watch for an include pattern inside one workspace folder,
+   * or undefined if the pattern belongs to another folder
+   */
+  private getWatchPattern(
+    folderName: string,
+    folderPath: string,
+    pattern: string
+  ): string | undefined {
+    // Regex rules cannot be expressed as a glob, so watch everything
+    if (ExclusionMatcher.isRegexPattern(pattern)) {
+      return "**/*";
+    }
+
+    const { folder, path: folderPattern } =
+      PathUtils.parseQualifiedPath(pattern);
+    if (folder && folder !== folderName) {
+      return undefined;
+    }
+    if (ExclusionMatcher.isGlobPattern(folderPattern)) {
+      return folderPattern;
+    }
+
+    // A literal path may be a file or a folder, so watch both
+    const relativePath = PathUtils.isAbsolute(folderPattern)
+      ? path.relative(folderPath, folderPattern)
+      : folderPattern;
+    if (relativePath.startsWith("..")) {
+      return undefined;
+    }
+    return `{${relativePath},${relativePath}/**}`.replace(/\\/g, "/");
+  }
+
+  private onFileEvent(uri: vscode.Uri): void {
+    // Our own output must not trigger another run
+    if (
+      this.targetFolder &&
+      PathUtils.isSubdirectory(this.targetFolder, uri.fsPath)
+    ) {
+      return;
+    }
+
+    const relativePath = PathUtils.getRelativePathFromWorkspace(uri.fsPath);
+    if (this.ruleMatcher.shouldExclude(relativePath).shouldExclude) {
+      return;
+    }
+
+    this.scheduleRegeneration();
+  }
+
+  private scheduleRegeneration(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = undefined;
+      void this.regenerate();
+    }, WATCH.DEBOUNCE_MS);
+  }
+
+  private async regenerate(): Promise<void> {
+    // Changes during a run trigger one more run once it finishes
+    if (this.isRegenerating) {
+      this.pendingRegeneration = true;
+      return;
+    }
+
+    this.isRegenerating = true;
+    try {
+      const config = this.configManager.getConfig();
+      const workspaceRoots = this.configManager.getWorkspaceRoots();
+      const progress = { report: () => undefined };
+
+      PathUtils.ensureDirectoryExists(this.targetFolder);
+
+      if (config.watchOutput === "copy") {
+        await this.summaryCommand.performSummary(
+          workspaceRoots,
+          this.targetFolder,
+          config.rules,
+          config.structureFormat,
+          progress
+        );
+      } else {
+        await this.summaryOneFileCommand.performSummary(
+          workspaceRoots,
+          this.targetFolder,
+          config.rules,
+          config.outputFormat,
+          config.structureFormat,
+          progress
+        );
+      }
+
+      this.updateStatusBar(
+        "$(eye)",
+        `Regenerated at ${new Date().toLocaleTimeString()}`
+      );
+    } catch (error) {
+      this.updateStatusBar("$(warning)", `Regeneration failed: ${error}`);
+      console.error("Watch mode regeneration error:", error);
+    } finally {
+      this.isRegenerating = false;
+    }
+
+    if (this.pendingRegeneration && this.isWatching()) {
+      this.pendingRegeneration = false;
+      this.scheduleRegeneration();
+    }
+  }
+
+  private updateStatusBar(icon: string, status: string): void {
+    if (!this.isWatching()) {
+      return;
+    }
+
+    this.statusBarItem.text = `${icon} AI Context`;
+    this.statusBarItem.tooltip =
+      `Watch mode: ${status}\n` +
+      `Output: ${this.targetFolder}\n` +
+      "Click to stop watching";
+    this.statusBarItem.show();
+  }
+
+  private disposeWatchers(): void {
+    for (const watcher of this.watchers) {
+      watcher.dispose();
+    }
+    this.watchers = [];
+  }
+
+  public dispose(): void {
+    this.stop();
+    this.statusBarItem.dispose();
+  }
+}
@@ -2,20 +2,396 @@
  * Constants used across the summary tool
  */
 
+import { CommentSyntax, SecretDetector } from "./models/types";
+
 /** Output file names */
 export const OUTPUT_FILES = {
   PROJECT_STRUCTURE: "folder_structure.json",
   COMBINED_FILES: "combined_files.txt",
+  COMBINED_FILES_MARKDOWN: "combined_files.md",
+  COMBINED_FILES_XML: "combined_files.xml",
+  // Dot-prefixed so they never overwrite a copied file of the same name
+  MANIFEST: ".manifest.json",
+  REDACTION_REPORT: ".redaction_report.json",
+} as const;
+
+/** Separates the workspace folder name in multi-root paths ("backend:src") */
+export const WORKSPACE_FOLDER_SEPARATOR = ":";
+
+/** Prefixes of the ordered filter rules */
+export const RULE_PREFIXES = {
+  INCLUDE: "+",
+  EXCLUDE: "-",
+  COLLAPSE: "!",
+} as const;
+
+/** How a rule matched a path, as explained to users */
+export const MATCH_TYPE_LABELS = {
+  full: "full path",
+  basename: "name",
+  prefix: "folder prefix",
+} as const;
+
+/** Ignore files read when respecting .gitignore */
+export const IGNORE_FILES = {
+  GITIGNORE: ".gitignore",
+  AI_CONTEXT_IGNORE: ".aicontextignore",
+  GIT_INFO_EXCLUDE: ".git/info/exclude",
 } as const;
 
 /** Structure context description so AI could understand the JSON */
 export const STRUCTURE_CONTEXT =
-  "This JSON describes the project structure. Files are represented with value 0. Folders that are ignored/collapsed show a number indicating how many direct children (files + folders) they contain. Non-ignored folders are expanded as nested objects.";
+  'This JSON describes the project structure. Files are represented with value 0. Folders that are ignored/collapsed show a number indicating how many direct children (files + folders) they contain. Non-ignored folders are expanded as nested objects. In large or deep folders a "…" key summarizes the entries that are left out.';
+
+/** Limits of the structure summary */
+export const STRUCTURE_LIMITS = {
+  DEFAULT_MAX_DEPTH: 0,
+  DEFAULT_MAX_CHILDREN: 100,
+  // Key of the left-out entries summary in the JSON structure
+  TRUNCATION_KEY: "…",
+  // File types listed in the summary, most frequent first
+  MAX_LISTED_TYPES: 5,
+  NO_EXTENSION: "(no extension)",
+} as const;
+
+/** Structure file of each format; JSON keeps its original name */
+export const STRUCTURE_FILES = {
+  tree: "project_structure.txt",
+  "tree-ascii": "project_structure.txt",
+  markdown: "project_structure.md",
+  yaml: "project_structure.yaml",
+  json: OUTPUT_FILES.PROJECT_STRUCTURE,
+} as const;
+
+/** Line prefixes of the text tree structure */
+export const TREE_CHARACTERS = {
+  UNICODE: { BRANCH: "├── ", LAST: "└── ", PIPE: "│   ", SPACE: "    " },
+  ASCII: { BRANCH: "|-- ", LAST: "`-- ", PIPE: "|   ", SPACE: "    " },
+} as const;
+
+/** Code block languages by file extension, for formats that tag content */
+export const LANGUAGES_BY_EXTENSION: { readonly [extension: string]: string } =
+  {
+    ".bat": "batch",
+    ".c": "c",
+    ".cjs": "javascript",
+    ".cpp": "cpp",
+    ".cs": "csharp",
+    ".css": "css",
+    ".dart": "dart",
+    ".go": "go",
+    ".gradle": "groovy",
+    ".graphql": "graphql",
+    ".h": "c",
+    ".hpp": "cpp",
+    ".html": "html",
+    ".java": "java",
+    ".js": "javascript",
+    ".json": "json",
+    ".jsx": "jsx",
+    ".kt": "kotlin",
+    ".less": "less",
+    ".lua": "lua",
+    ".md": "markdown",
+    ".mjs": "javascript",
+    ".php": "php",
+    ".ps1": "powershell",
+    ".py": "python",
+    ".rb": "ruby",
+    ".rs": "rust",
+    ".scss": "scss",
+    ".sh": "bash",
+    ".sql": "sql",
+    ".svelte": "svelte",
+    ".swift": "swift",
+    ".toml": "toml",
+    ".ts": "typescript",
+    ".tsx": "tsx",
+    ".vue": "vue",
+    ".xml": "xml",
+    ".yaml": "yaml",
+    ".yml": "yaml",
+    ".zsh": "bash",
+  };
+
+/** Code block languages for well-known file names without an extension */
+export const LANGUAGES_BY_FILE_NAME: { readonly [fileName: string]: string } = {
+  Dockerfile: "dockerfile",
+  Makefile: "makefile",
+};
+
+/** Binary file sniffing */
+export const BINARY_DETECTION = {
+  SAMPLE_BYTES: 8192,
+  MAX_INVALID_UTF8_RATIO: 0.1,
+} as const;
+
+/** Magic numbers of common binary formats */
+export const BINARY_SIGNATURES: readonly {
+  type: string;
+  offset: number;
+  bytes: readonly number[];
+}[] = [
+  { type: "PNG image", offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { type: "JPEG image", offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { type: "GIF image", offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] },
+  { type: "BMP image", offset: 0, bytes: [0x42, 0x4d] },
+  { type: "WebP image", offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+  { type: "ICO image", offset: 0, bytes: [0x00, 0x00, 0x01, 0x00] },
+  { type: "PDF document", offset: 0, bytes: [0x25, 0x50, 0x44, 0x46] },
+  { type: "ZIP archive", offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { type: "gzip archive", offset: 0, bytes: [0x1f, 0x8b] },
+  { type: "7z archive", offset: 0, bytes: [0x37, 0x7a, 0xbc, 0xaf] },
+  { type: "SQLite database", offset: 0, bytes: [0x53, 0x51, 0x4c, 0x69] },
+  { type: "WOFF font", offset: 0, bytes: [0x77, 0x4f, 0x46, 0x46] },
+  { type: "WOFF2 font", offset: 0, bytes: [0x77, 0x4f, 0x46, 0x32] },
+  { type: "TrueType font", offset: 0, bytes: [0x00, 0x01, 0x00, 0x00] },
+  { type: "OpenType font", offset: 0, bytes: [0x4f, 0x54, 0x54, 0x4f] },
+  { type: "ELF executable", offset: 0, bytes: [0x7f, 0x45, 0x4c, 0x46] },
+  { type: "Windows executable", offset: 0, bytes: [0x4d, 0x5a] },
+  { type: "Java class file", offset: 0, bytes: [0xca, 0xfe, 0xba, 0xbe] },
+  { type: "WebAssembly module", offset: 0, bytes: [0x00, 0x61, 0x73, 0x6d] },
+];
+
+/** Persistent content cache */
+export const CACHE = {
+  FILE_NAME: "content-cache.json",
+  // 2: token counts are stored under the method that produced them
+  VERSION: 2,
+  MAX_ENTRIES: 100_000,
+} as const;
+
+/** Watch mode */
+export const WATCH = {
+  DEBOUNCE_MS: 1000,
+} as const;
+
+/** Context profiles */
+export const PROFILES = {
+  DEFAULT_NAME: "default",
+} as const;
+
+/** Git change sources */
+export const GIT_CHANGES = {
+  LABELS: {
+    staged: "Staged changes",
+    unstaged: "Unstaged changes",
+    untracked: "Untracked files",
+    since: "Changed since",
+    "merge-base": "Changed since merge-base with",
+  },
+  DEFAULT_REF: "main",
+  MAX_OUTPUT_BYTES: 64 * 1024 * 1024,
+} as const;
+
+/** Outline detail level */
+export const OUTLINE = {
+  ELLIPSIS: "…",
+  // Longer or multi-line initializers are elided in outlines
+  MAX_INITIALIZER_LENGTH: 60,
+} as const;
+
+/** Git diffs in the combined output */
+export const DIFF = {
+  DEFAULT_BASE: "HEAD",
+  INDEX_BASE: "index",
+  MERGE_BASE_PREFIX: "merge-base:",
+  DEFAULT_CONTEXT_LINES: 3,
+} as const;
+
+/** Compression pass of the combined output */
+export const COMPRESSION = {
+  TAB_WIDTH: 4,
+  INDENT_WIDTH: 2,
+  // Tabs are part of the syntax, so indentation is left alone
+  TAB_INDENTED_LANGUAGES: ["makefile"],
+  // A leading comment mentioning any of these is a license banner
+  LICENSE_PATTERN:
+    /copyright|licen[cs]e|spdx-license-identifier|all rights reserved|permission is hereby granted/i,
+} as const;
+
+const C_LIKE_SYNTAX: CommentSyntax = {
+  lineComments: ["//"],
+  blockComments: [["/*", "*/"]],
+  docComments: ["/**", "///", "//!"],
+  strings: ['"', "'", "`"],
+  multiLineStrings: ["`"],
+};
+
+const JS_SYNTAX: CommentSyntax = {
+  ...C_LIKE_SYNTAX,
+  templateStrings: ["`"],
+  regexLiterals: true,
+};
+
+// JSX text can hold "//" and "/*", e.g. URLs, so comments are left alone
+const JSX_SYNTAX: CommentSyntax = {
+  ...JS_SYNTAX,
+  lineComments: [],
+  blockComments: [],
+  docComments: [],
+};
+
+const HASH_SYNTAX: CommentSyntax = {
+  lineComments: ["#"],
+  blockComments: [],
+  docComments: [],
+  strings: ['"', "'"],
+  multiLineStrings: [],
+};
+
+const TRIPLE_QUOTE_SYNTAX: CommentSyntax = {
+  ...HASH_SYNTAX,
+  strings: ['"""', "'''", '"', "'"],
+  multiLineStrings: ['"""', "'''"],
+};
+
+const MARKUP_SYNTAX: CommentSyntax = {
+  lineComments: [],
+  blockComments: [["<!--", "-->"]],
+  docComments: [],
+  strings: [],
+  multiLineStrings: [],
+};
+
+// "//" would also match URLs in SCSS and Less, so only block comments
+const CSS_SYNTAX: CommentSyntax = {
+  lineComments: [],
+  blockComments: [["/*", "*/"]],
+  docComments: [],
+  strings: ['"', "'"],
+  multiLineStrings: [],
+};
+
+/** Comment and string syntax by code block language, for compression */
+export const COMMENT_SYNTAX: { readonly [language: string]: CommentSyntax } = {
+  bash: HASH_SYNTAX,
+  c: C_LIKE_SYNTAX,
+  cpp: C_LIKE_SYNTAX,
+  csharp: C_LIKE_SYNTAX,
+  css: CSS_SYNTAX,
+  dart: {
+    ...C_LIKE_SYNTAX,
+    strings: ['"""', "'''", '"', "'"],
+    multiLineStrings: ['"""', "'''"],
+    templateStrings: ['"""', "'''", '"', "'"],
+  },
+  dockerfile: HASH_SYNTAX,
+  go: C_LIKE_SYNTAX,
+  graphql: { ...HASH_SYNTAX, strings: ['"""', '"'], multiLineStrings: ['"""'] },
+  groovy: C_LIKE_SYNTAX,
+  html: MARKUP_SYNTAX,
+  java: {
+    ...C_LIKE_SYNTAX,
+    strings: ['"""', '"', "'"],
+    multiLineStrings: ['"""'],
+  },
+  javascript: JS_SYNTAX,
+  jsx: JSX_SYNTAX,
+  kotlin: {
+    ...C_LIKE_SYNTAX,
+    strings: ['"""', '"', "'"],
+    multiLineStrings: ['"""'],
+    templateStrings: ['"""', '"'],
+  },
+  less: CSS_SYNTAX,
+  lua: {
+    lineComments: ["--"],
+    blockComments: [["--[[", "]]"]],
+    docComments: [],
+    strings: ['"', "'"],
+    multiLineStrings: [],
+  },
+  makefile: HASH_SYNTAX,
+  // "#[" starts an attribute rather than a comment
+  php: { ...C_LIKE_SYNTAX, lineComments: ["//", "#"], notComments: ["#["] },
+  powershell: { ...HASH_SYNTAX, blockComments: [["<#", "#>"]] },
+  python: TRIPLE_QUOTE_SYNTAX,
+  ruby: HASH_SYNTAX,
+  rust: { ...C_LIKE_SYNTAX, strings: ['"', "'"], multiLineStrings: ['"'] },
+  scss: CSS_SYNTAX,
+  sql: {
+    lineComments: ["--"],
+    blockComments: [["/*", "*/"]],
+    docComments: [],
+    strings: ["'", '"'],
+    multiLineStrings: ["'"],
+  },
+  svelte: MARKUP_SYNTAX,
+  swift: { ...C_LIKE_SYNTAX, strings: ['"""', '"'], multiLineStrings: ['"""'] },
+  toml: TRIPLE_QUOTE_SYNTAX,
+  tsx: JSX_SYNTAX,
+  typescript: JS_SYNTAX,
+  vue: MARKUP_SYNTAX,
+  xml: MARKUP_SYNTAX,
+  yaml: HASH_SYNTAX,
+};
+
+/** Secret redaction */
+export const REDACTION = {
+  PLACEHOLDER_PREFIX: "REDACTED",
+  // Shannon entropy in bits per character a "high-entropy" value needs
+  MIN_ENTROPY: 4,
+} as const;
+
+/**
+ * Patterns of the built-in secret detectors. When a pattern has a "secret"
+ * group only that part is replaced.
+ */
+export const SECRET_PATTERNS: {
+  readonly [detector in SecretDetector]: readonly RegExp[];
+} = {
+  "aws-access-key": [/\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/dg],
+  "aws-secret-key": [
+    /aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?(?<secret>[A-Za-z0-9/+]{40})(?![A-Za-z0-9/+])/dgi,
+  ],
+  "gcp-api-key": [/\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])/dg],
+  "azure-key": [
+    /\b(?:AccountKey|SharedAccessKey|sig)=(?<secret>[A-Za-z0-9+/%]{40,}={0,2})/dg,
+  ],
+  // Also matches keys in JSON strings, where line breaks are written as \n
+  "private-key": [
+    /-----BEGIN [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----/dg,
+  ],
+  jwt: [/\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/dg],
+  // Quoted values anywhere, unquoted values only in whole KEY=value lines.
+  // Key names start at a word boundary and are bounded, so long runs of
+  // word characters cannot make the search quadratic.
+  "password-assignment": [
+    /(?<![\w.-])[\w.-]{0,64}(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|credentials?)[\w.-]{0,64}["']?\s*[:=]\s*(?<quote>["'])(?<secret>(?![$<{])[^"'\s]{4,})\k<quote>/dgi,
+    /^[ \t]*(?:export[ \t]+)?[\w.-]{0,64}(?:PASSWORD|PASSWD|PWD|SECRET|TOKEN|API_KEY|ACCESS_KEY|CREDENTIALS?)[\w.-]{0,64}[ \t]*=[ \t]*(?<secret>(?![$<{])[^\s#;()[\]"']{4,})[ \t]*$/dgim,
+  ],
+  // Candidates only; values below REDACTION.MIN_ENTROPY are kept
+  "high-entropy": [
+    /(?<=["'`=:][ \t]*)(?<secret>(?!sha(?:1|256|384|512)-)[A-Za-z0-9+/_-]{24,}={0,2})(?![A-Za-z0-9+/_=-])/dg,
+  ],
+};
 
 /** UI Messages */
 export const MESSAGES = {
   NO_WORKSPACE: "No workspace folder is open",
   FOLDER_NOT_EMPTY: "Target folder is not empty. Do you want to proceed?",
+  TOKEN_BUDGET_EXCEEDED: "Token budget exceeded",
+  NOTHING_TRACKED: "No tracked files to copy",
+} as const;
+
+/** Token counting */
+export const TOKENIZER = {
+  CHARS_PER_TOKEN: 4,
+  MAX_BPE_CHARACTERS: 2_000_000,
+  TOP_FILES_IN_MESSAGE: 3,
+} as const;
+
+/** Explorer decorations */
+export const DECORATIONS = {
+  TRACKED_BADGE: "●",
+  COLLAPSED_BADGE: "…",
+  REFRESH_DELAY_MS: 500,
+} as const;
+
+/** Tracked items tree of the AI Context sidebar */
+export const CONTEXT_VIEW = {
+  REFRESH_DELAY_MS: 500,
 } as const;
 
 /** UI Labels */
@@ -28,6 +404,35 @@ export const LABELS = {
   USE_EXISTING_FOLDER: "Use existing target folder",
   CHOOSE_NEW_FOLDER: "Choose new target folder",
   USE_GLOBAL_CONFIG_FOLDER: "Use global config target folder",
+  SHOW_TOKEN_REPORT: "Show Token Report",
+  COPY_ANYWAY: "Copy Anyway",
+  GENERATE: "Generate",
+  GENERATE_ONE_FILE: "Generate Single File",
+  COPY_TO_CLIPBOARD: "Copy to Clipboard",
+} as const;
+
+/** Preview decisions, in the order they are listed */
+export const PREVIEW_DECISION_LABELS = {
+  included: "Included",
+  excluded: "Excluded by rule",
+  gitignored: "Gitignored",
+  "not-tracked": "Not tracked",
+} as const;
+
+/** Output format choices */
+export const OUTPUT_FORMAT_LABELS = {
+  text: "Plain text",
+  markdown: "Markdown",
+  xml: "XML tags",
+} as const;
+
+/** Structure format choices */
+export const STRUCTURE_FORMAT_LABELS = {
+  tree: "Text tree",
+  "tree-ascii": "Text tree (ASCII)",
+  markdown: "Markdown list",
+  yaml: "YAML",
+  json: "Compact JSON",
 } as const;
 
 /** Progress messages */
@@ -36,7 +441,12 @@ export const PROGRESS = {
   STRUCTURE_COMPLETE: "Structure analysis complete",
   PROCESSING_FILES: "Processing tracked files...",
   COPYING_COMPLETE: "File copying complete",
-  SAVING_STRUCTURE: "Saving structure summary...",
   ALL_FINISHED: "All steps finished!",
   GENERATION_COMPLETE: "Single file generation complete!",
 } as const;
+
+/** Share of the progress bar each phase of a run fills, in percent */
+export const PROGRESS_SHARES = {
+  STRUCTURE: 30,
+  FILES: 70,
+} as const;
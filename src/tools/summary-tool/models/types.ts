@@ -3,9 +3,141 @@ import * as vscode from "vscode";
 export interface SummaryToolConfig {
   targetFolder: string;
   defaultTargetFolder: string;
-  track: string[];
-  untrack: string[];
-  ignoreStructure: string[];
+  rules: string[];
+  maxTokens: number;
+  tokenBudgetMode: TokenBudgetMode;
+  tokenizer: TokenizerMethod;
+  respectGitignore: boolean;
+  outputFormat: OutputFormat;
+  structureFormat: StructureFormat;
+  structureMaxDepth: number;
+  structureMaxChildren: number;
+  structureLimitOverrides: StructureLimitOverrides;
+  copyLayout: CopyLayout;
+  clipboardWarningSizeKb: number;
+  watchOutput: WatchOutput;
+  gitChanges: string[];
+  diffMode: DiffMode;
+  diffBase: string;
+  diffContextLines: number;
+  outline: string[];
+  compression: CompressionPass[];
+  compressionKeepDocComments: boolean;
+  redaction: RedactionMode;
+  redactionDetectors: SecretDetector[];
+  redactionPatterns: string[];
+}
+
+export type TokenizerMethod = "cl100k" | "estimate";
+
+// "mixed" when some counts fell back to the estimate
+export type TokenCountMethod = TokenizerMethod | "mixed";
+
+export interface TokenCount {
+  tokens: number;
+  method: TokenizerMethod; // The method that produced the count
+}
+
+export type TokenBudgetMode = "stop" | "warn";
+
+export type OutputFormat = "text" | "markdown" | "xml";
+
+export type StructureFormat =
+  "tree" | "tree-ascii" | "markdown" | "yaml" | "json";
+
+/** Limits of the structure summary, 0 for unlimited */
+export interface StructureLimits {
+  maxDepth: number; // Folders this deep list none of their entries
+  maxChildren: number; // Entries listed per folder
+}
+
+/** Limits replacing the global ones for folders matching a pattern */
+export interface StructureLimitOverrides {
+  [pattern: string]: Partial<StructureLimits>;
+}
+
+export type CopyLayout = "flat" | "mirror";
+
+export type WatchOutput = "single-file" | "copy";
+
+/**
+ * off: contents only, append: contents followed by the diff,
+ * only: just the diff hunks of changed files
+ */
+export type DiffMode = "off" | "append" | "only";
+
+/** full: the whole file, outline: only its API surface */
+export type DetailLevel = "full" | "outline";
+
+/**
+ * Compression passes applied to text files in the combined output, in
+ * this order regardless of how they are listed
+ */
+export type CompressionPass =
+  "license-headers" | "comments" | "blank-lines" | "indentation";
+
+export interface CompressionOptions {
+  passes: CompressionPass[];
+  keepDocComments: boolean; // Keep "/** */", "///" and "//!" comments
+}
+
+export interface CompressionStats {
+  originalBytes: number;
+  compressedBytes: number;
+  originalTokens: number;
+  compressedTokens: number;
+}
+
+/** How comments and strings are written in one language */
+export interface CommentSyntax {
+  lineComments: string[];
+  blockComments: [string, string][];
+  docComments: string[]; // Prefixes of comments kept with keepDocComments
+  strings: string[]; // String delimiters, longest first
+  multiLineStrings: string[]; // Delimiters whose strings span lines
+  templateStrings?: string[]; // Delimiters whose strings hold "${…}" code
+  notComments?: string[]; // Code starting like a line comment, e.g. "#["
+  regexLiterals?: boolean; // "/" may start a regex literal
+}
+
+/**
+ * off: files are written as they are, redact: secrets are replaced by
+ * placeholders, block: the run is aborted when a secret is found
+ */
+export type RedactionMode = "off" | "redact" | "block";
+
+export type SecretDetector =
+  | "aws-access-key"
+  | "aws-secret-key"
+  | "gcp-api-key"
+  | "azure-key"
+  | "private-key"
+  | "jwt"
+  | "password-assignment"
+  | "high-entropy";
+
+export interface RedactionOptions {
+  mode: RedactionMode;
+  detectors: SecretDetector[];
+  patterns: string[]; // User regexes; a "secret" group limits the match
+}
+
+export interface RedactionFinding {
+  relativePath: string;
+  line: number; // 1-based, in the text that was written
+  detector: SecretDetector | "custom";
+  placeholder: string;
+}
+
+export interface RedactionReport {
+  generatedAt: string;
+  mode: RedactionMode;
+  findings: RedactionFinding[];
+}
+
+export interface FileDiff {
+  base: string; // Readable base, e.g. "HEAD" or "merge-base with main"
+  diff: string;
 }
 
 export interface FolderNode {
@@ -14,6 +146,15 @@ export interface FolderNode {
   isFile: boolean;
   children: { [key: string]: FolderNode | null };
   isIgnored?: boolean; // Used for structure summary - shows parent but not children
+  childCount?: number; // Direct children of an ignored folder
+  truncated?: TruncatedEntries; // Direct children left out by the limits
+}
+
+/** Entries of a folder left out of the structure by its limits */
+export interface TruncatedEntries {
+  files: number;
+  folders: number;
+  fileTypes: { [extension: string]: number };
 }
 
 export interface SummaryResult {
@@ -23,6 +164,75 @@ export interface SummaryResult {
   skippedFiles: number;
   totalFiles: number;
   targetPath: string;
+  structurePath?: string;
+  tokenUsage?: TokenUsage;
+  patternMatches?: PatternMatchSummary[];
+  gitChanges?: GitChangeSummary[];
+  skippedFileDetails?: SkippedFile[];
+  outlinedFiles?: string[];
+  compression?: CompressionStats;
+  redactions?: RedactionFinding[];
+  cancelled?: boolean; // The user stopped the run, results are partial
+  processedFiles?: number; // Files handled before the run was cancelled
+  cacheStats?: CacheStats;
+}
+
+export interface ProfileSummaryResult {
+  profile: string;
+  result: SummaryResult;
+}
+
+export interface SkippedFile {
+  relativePath: string;
+  reason: string;
+}
+
+export interface BinaryFileInfo {
+  type: string; // e.g. "PNG image", or "binary data" when unrecognized
+  size: number;
+  dimensions?: ImageDimensions;
+}
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+export interface PatternMatchSummary {
+  pattern: string;
+  matchCount: number;
+}
+
+/**
+ * Local git query whose files are tracked in addition to the include
+ * rules. "since" and "merge-base" compare the working tree with a ref.
+ */
+export type GitChangeKind =
+  "staged" | "unstaged" | "untracked" | "since" | "merge-base";
+
+export interface GitChangeSource {
+  kind: GitChangeKind;
+  ref?: string;
+}
+
+export interface GitChangeSummary {
+  source: string; // As written in the setting, e.g. "merge-base:main"
+  matchCount: number;
+  error?: string;
+}
+
+export interface FileTokenCount {
+  relativePath: string;
+  tokens: number;
+}
+
+export interface TokenUsage {
+  method: TokenCountMethod;
+  files: FileTokenCount[];
+  totalTokens: number;
+  maxTokens: number;
+  budgetExceeded: boolean;
+  omittedFiles: string[];
 }
 
 export interface TrackingItem {
@@ -32,16 +242,132 @@ export interface TrackingItem {
   isTracked: boolean;
 }
 
+export interface WorkspaceRoot {
+  name: string;
+  path: string;
+}
+
 export interface StructureSummaryOptions {
-  workspacePath: string;
-  ignoreStructurePatterns: string[];
+  workspaceRoots: WorkspaceRoot[];
+  limits?: StructureLimits;
+  limitOverrides?: StructureLimitOverrides;
 }
 
 export interface FileTrackingOptions {
-  workspacePath: string;
+  workspaceRoots: WorkspaceRoot[];
   targetPath: string;
-  trackPatterns: string[];
-  untrackPatterns: string[];
+  tokenizer?: TokenizerMethod;
+  maxTokens?: number;
+  tokenBudgetMode?: TokenBudgetMode;
+  outputFormat?: OutputFormat;
+  structureText?: string; // Embedded at the top by formats that support it
+  structureFormat?: StructureFormat; // Format structureText is rendered in
+  copyLayout?: CopyLayout;
+  diffMode?: DiffMode;
+  diffBase?: string; // "HEAD", "index", "merge-base:<ref>" or any ref
+  diffContextLines?: number;
+  outline?: string[]; // Patterns of files written as outlines
+  compression?: CompressionOptions;
+  redaction?: RedactionOptions;
+}
+
+/** Rules of each saved profile, keyed by profile name */
+export interface ContextProfiles {
+  [name: string]: string[];
+}
+
+export type CombinedContentOptions = Omit<
+  FileTrackingOptions,
+  "targetPath" | "copyLayout"
+>;
+
+export interface CombinedContentResult {
+  totalFiles: number;
+  trackedFiles: string[];
+  tokenUsage: TokenUsage;
+  patternMatches: PatternMatchSummary[];
+  gitChanges: GitChangeSummary[];
+  skippedFileDetails: SkippedFile[];
+  outlinedFiles: string[];
+  compression: CompressionStats | null; // null when no pass is enabled
+  redactions: RedactionFinding[];
+  cancelled: boolean;
+  processedFiles: number;
+}
+
+/** Why a candidate is or is not part of a summary */
+export type PreviewDecision =
+  | "included"
+  | "excluded" // By an exclude rule
+  | "gitignored"
+  | "not-tracked"; // No include rule covers it
+
+export interface PreviewEntry {
+  relativePath: string;
+  isFile: boolean; // Excluded and gitignored folders are not searched
+  decision: PreviewDecision;
+  matchedPatterns: string[]; // Every matching rule, in rule order
+  size?: number; // Files only
+  tokens?: number; // Included files only
+  detailLevel?: DetailLevel;
+}
+
+export type PreviewOptions = Pick<
+  CombinedContentOptions,
+  "workspaceRoots" | "tokenizer" | "outputFormat" | "outline" | "compression"
+>;
+
+export type CacheKind = "files" | "directories" | "tokens";
+
+export interface CacheCounter {
+  hits: number;
+  misses: number;
+}
+
+export type CacheStats = { [kind in CacheKind]: CacheCounter };
+
+export interface CachedFile {
+  mtimeMs: number;
+  size: number;
+  sha256: string; // Of the original file
+  redactions?: number; // Secrets replaced in the copy
+}
+
+export interface CachedDirectoryEntry {
+  name: string;
+  isFile: boolean;
+  isDirectory: boolean;
+}
+
+export interface CachedDirectory {
+  mtimeMs: number;
+  entries: CachedDirectoryEntry[];
+}
+
+export interface ContentCacheData {
+  version: number;
+  files: { [absolutePath: string]: CachedFile };
+  directories: { [absolutePath: string]: CachedDirectory };
+  tokens: { [methodAndContentHash: string]: number };
+  // Structure file name last written to each target folder
+  structureFiles?: { [absolutePath: string]: string };
+}
+
+export interface ManifestEntry {
+  outputPath: string; // Relative to the target folder
+  originalPath: string; // Workspace-relative
+  size: number;
+  sha256: string; // Of the original file
+  outputSize: number; // Of the written copy, which differs when outlined or redacted
+  outputSha256: string;
+  outline?: boolean; // The copy holds only the file's outline
+  redactions?: number; // Secrets replaced in the copy
+}
+
+export interface CopyManifest {
+  generatedAt: string;
+  layout: CopyLayout;
+  files: ManifestEntry[];
 }
 
 export interface ExclusionMatchResult {
@@ -49,10 +375,87 @@ export interface ExclusionMatchResult {
   matchedPattern?: string;
 }
 
+/**
+ * include (+): add to the output, exclude (-): drop from the output and
+ * collapse in the structure, collapse (!): collapse in the structure only
+ */
+export type RuleAction = "include" | "exclude" | "collapse";
+
+export type PatternMatchType = "full" | "basename" | "prefix";
+
+export interface FilterRule {
+  rule: string; // Original rule string, including the prefix
+  action: RuleAction;
+  folder?: string; // Workspace folder the rule is limited to
+  pattern: string;
+  regex: RegExp;
+  directoryOnly: boolean; // Written with a trailing "/", matches folders only
+}
+
+export interface RuleMatch {
+  rule: string;
+  action: RuleAction;
+  matchType: PatternMatchType;
+}
+
+/** A rule matching an item, or the folder of the item it matched */
+export interface RuleExplanation extends RuleMatch {
+  matchedPath: string;
+  isAncestor: boolean;
+}
+
+export interface PathExplanation {
+  relativePath: string;
+  isDirectory: boolean;
+  decision: PreviewDecision;
+  trackedBy?: RuleExplanation; // Include rule tracking the item or a folder of it
+  excludedBy?: RuleExplanation;
+  gitignoredBy?: GitignoreMatchResult;
+  collapsedBy?: RuleExplanation; // Rule collapsing the folder in the structure
+  matches: RuleExplanation[]; // Every matching rule, in rule order
+}
+
+export interface GitignoreRule {
+  pattern: string;
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+  basePath: string; // Directory of the ignore file, relative to the root
+  source: string; // Ignore file the rule was read from
+}
+
+export interface GitignoreMatchResult {
+  ignored: boolean;
+  rule?: GitignoreRule;
+}
+
+export type ContextNodeKind =
+  | "trackedItem" // Literal include rule resolved to a file or folder
+  | "trackedPattern" // Glob or regex include rule
+  | "missing" // Include rule that matches nothing
+  | "gitChanges" // Git change source from the git-changes setting
+  | "child"; // File or folder inside a tracked folder
+
+export interface ContextTreeNode {
+  kind: ContextNodeKind;
+  label: string;
+  path?: string;
+  relativePath?: string;
+  isFile: boolean;
+  rule?: string; // Include rule that produced a top-level node
+  gitSource?: string; // Git change source of a "gitChanges" node
+  excludedBy?: string; // Why the item is left out of the output
+}
+
 export interface ProgressReporter {
   report(value: { message?: string; increment?: number }): void;
 }
 
+/** Checked by long-running work; vscode.CancellationToken satisfies it */
+export interface CancellationSignal {
+  readonly isCancellationRequested: boolean;
+}
+
 export interface CommandContext {
   uri?: vscode.Uri;
   progress?: ProgressReporter;
@@ -67,12 +470,57 @@ export enum SummaryToolCommand {
   ADD_UNTRACK = PKG_NAME + ".untrack",
   IGNORE_STRUCTURE = PKG_NAME + ".ignore-structure",
   RESET = PKG_NAME + ".reset",
+  REFRESH_CONTEXT_VIEW = PKG_NAME + ".refresh-context-view",
+  UNTRACK_FROM_VIEW = PKG_NAME + ".untrack-from-view",
+  REVEAL_FROM_VIEW = PKG_NAME + ".reveal-from-view",
+  OPEN_FROM_VIEW = PKG_NAME + ".open-from-view",
+  CREATE_PROFILE = PKG_NAME + ".create-profile",
+  SWITCH_PROFILE = PKG_NAME + ".switch-profile",
+  DUPLICATE_PROFILE = PKG_NAME + ".duplicate-profile",
+  RENAME_PROFILE = PKG_NAME + ".rename-profile",
+  DELETE_PROFILE = PKG_NAME + ".delete-profile",
+  COPY_TO_CLIPBOARD = PKG_NAME + ".copy-to-clipboard",
+  TOGGLE_WATCH = PKG_NAME + ".toggle-watch",
+  TRACK_GIT_CHANGES = PKG_NAME + ".track-git-changes",
+  TOGGLE_OUTLINE = PKG_NAME + ".toggle-outline",
+  PREVIEW_CONTEXT = PKG_NAME + ".preview-context",
+  EXPLAIN = PKG_NAME + ".explain",
+}
+
+export enum SummaryToolView {
+  CONTEXT = PKG_NAME + ".context-view",
 }
 
 export enum ConfigKey {
   TARGET_FOLDER = PKG_NAME + ".target-folder",
   DEFAULT_TARGET_FOLDER = PKG_NAME + ".default-target-folder",
+  RULES = PKG_NAME + ".rules",
+  // Legacy lists, migrated to RULES on activation
   TRACK = PKG_NAME + ".track",
   UNTRACK = PKG_NAME + ".untrack",
   IGNORE_STRUCTURE = PKG_NAME + ".ignore-structure",
+  MAX_TOKENS = PKG_NAME + ".max-tokens",
+  TOKEN_BUDGET_MODE = PKG_NAME + ".token-budget-mode",
+  TOKENIZER = PKG_NAME + ".tokenizer",
+  RESPECT_GITIGNORE = PKG_NAME + ".respect-gitignore",
+  OUTPUT_FORMAT = PKG_NAME + ".output-format",
+  STRUCTURE_FORMAT = PKG_NAME + ".structure-format",
+  STRUCTURE_MAX_DEPTH = PKG_NAME + ".structure-max-depth",
+  STRUCTURE_MAX_CHILDREN = PKG_NAME + ".structure-max-children",
+  STRUCTURE_LIMIT_OVERRIDES = PKG_NAME + ".structure-limit-overrides",
+  COPY_LAYOUT = PKG_NAME + ".copy-layout",
+  PROFILES = PKG_NAME + ".profiles",
+  ACTIVE_PROFILE = PKG_NAME + ".active-profile",
+  CLIPBOARD_WARNING_SIZE_KB = PKG_NAME + ".clipboard-warning-size-kb",
+  WATCH_OUTPUT = PKG_NAME + ".watch-output",
+  GIT_CHANGES = PKG_NAME + ".git-changes",
+  DIFF_MODE = PKG_NAME + ".diff-mode",
+  DIFF_BASE = PKG_NAME + ".diff-base",
+  DIFF_CONTEXT_LINES = PKG_NAME + ".diff-context-lines",
+  OUTLINE = PKG_NAME + ".outline",
+  COMPRESSION = PKG_NAME + ".compression",
+  COMPRESSION_KEEP_DOC_COMMENTS = PKG_NAME + ".compression-keep-doc-comments",
+  REDACTION = PKG_NAME + ".redaction",
+  REDACTION_DETECTORS = PKG_NAME + ".redaction-detectors",
+  REDACTION_PATTERNS = PKG_NAME + ".redaction-patterns",
 }
@@ -0,0 +1,202 @@
+import * as fs from "fs";
+import { BINARY_DETECTION, BINARY_SIGNATURES } from "../constants";
+import { BinaryFileInfo, ImageDimensions } from "../models/types";
+import { PathUtils } from "../utils/pathUtils";
+
+export class BinaryDetector {
+  /**
+   * Sniff the start of a file and describe it when it is not text.
+   * Returns null for text files.
+   */
+  public static async detect(filePath: string): Promise<BinaryFileInfo | null> {
+    const sample = await BinaryDetector.readSample(filePath);
+    if (sample.length === 0) {
+      return null;
+    }
+
+    const signature = BINARY_SIGNATURES.find((candidate) =>
+      BinaryDetector.matchesSignature(sample, candidate.offset, candidate.bytes)
+    );
+
+    // Signatures made of printable characters ("BM", "MZ", "%PDF") can start
+    // a text file too, so only the others are conclusive on their own
+    const isConclusive = signature?.bytes.some(
+      (byte) => byte < 0x20 || byte >= 0x7f
+    );
+
+    if (
+      !isConclusive &&
+      !sample.includes(0) &&
+      BinaryDetector.getInvalidUtf8Ratio(sample) <=
+        BINARY_DETECTION.MAX_INVALID_UTF8_RATIO
+    ) {
+      return null;
+    }
+
+    const size = await PathUtils.getFileSize(filePath);
+    return {
+      type: signature?.type ?? "binary data",
+      size,
+      dimensions: signature
+        ? BinaryDetector.readDimensions(sample, signature.type)
+        : undefined,
+    };
+  }
+
+  /**
+   * One-line stand-in for the file content in the combined output
+   */
+  public static formatPlaceholder(info: BinaryFileInfo): string {
+    const details = [info.type, PathUtils.formatFileSize(info.size)];
+    if (info.dimensions) {
+      details.push(`${info.dimensions.width}x${info.dimensions.height}`);
+    }
+    return `[Binary file omitted: ${details.join(", ")}]\n`;
+  }
+
+  private static async readSample(filePath: string): Promise<Buffer> {
+    const handle = await fs.promises.open(filePath, "r");
+    try {
+      const buffer = Buffer.alloc(BINARY_DETECTION.SAMPLE_BYTES);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private static matchesSignature(
+    sample: Buffer,
+    offset: number,
+    bytes: readonly number[]
+  ): boolean {
+    if (sample.length < offset + bytes.length) {
+      return false;
+    }
+    return bytes.every((byte, i) => sample[offset + i] === byte);
+  }
+
+  /**
+   * Share of the sample that does not decode as UTF-8. A character cut
+   * off at the end of the sample is not counted.
+   */
+  private static getInvalidUtf8Ratio(sample: Buffer): number {
+    let invalid = 0;
+    let i = 0;
+
+    while (i < sample.length) {
+      const length = BinaryDetector.getSequenceLength(sample[i]);
+
+      if (length === 0) {
+        invalid++;
+        i++;
+        continue;
+      }
+      if (i + length > sample.length) {
+        break;
+      }
+
+      let valid = true;
+      for (let j = 1; j < length; j++) {
+        if ((sample[i + j] & 0xc0) !== 0x80) {
+          valid = false;
+          break;
+        }
+      }
+
+      if (valid) {
+        i += length;
+      } else {
+        invalid++;
+        i++;
+      }
+    }
+
+    return invalid / sample.length;
+  }
+
+  /**
+   * Length of the UTF-8 sequence a lead byte starts, or 0 if it cannot
+   * start one
+   */
+  private static getSequenceLength(byte: number): number {
+    if (byte < 0x80) {
+      return 1;
+    }
+    if (byte >= 0xc2 && byte <= 0xdf) {
+      return 2;
+    }
+    if (byte >= 0xe0 && byte <= 0xef) {
+      return 3;
+    }
+    if (byte >= 0xf0 && byte <= 0xf4) {
+      return 4;
+    }
+    return 0;
+  }
+
+  /**
+   * Image dimensions when they are in the sampled header
+   */
+  private static readDimensions(
+    sample: Buffer,
+    type: string
+  ): ImageDimensions | undefined {
+    try {
+      switch (type) {
+        case "PNG image":
+          return {
+            width: sample.readUInt32BE(16),
+            height: sample.readUInt32BE(20),
+          };
+        case "GIF image":
+          return {
+            width: sample.readUInt16LE(6),
+            height: sample.readUInt16LE(8),
+          };
+        case "BMP image":
+          return {
+            width: sample.readInt32LE(18),
+            height: Math.abs(sample.readInt32LE(22)),
+          };
+        case "JPEG image":
+          return BinaryDetector.readJpegDimensions(sample);
+        default:
+          return undefined;
+      }
+    } catch {
+      // Header shorter than expected
+      return undefined;
+    }
+  }
+
+  private static readJpegDimensions(
+    sample: Buffer
+  ): ImageDimensions | undefined {
+    let offset = 2;
+
+    // Walk the segments until a start-of-frame marker
+    while (offset + 9 < sample.length) {
+      if (sample[offset] !== 0xff) {
+        return undefined;
+      }
+      const marker = sample[offset + 1];
+      const isStartOfFrame =
+        marker >= 0xc0 &&
+        marker <= 0xcf &&
+        marker !== 0xc4 &&
+        marker !== 0xc8 &&
+        marker !== 0xcc;
+
+      if (isStartOfFrame) {
+        return {
+          width: sample.readUInt16BE(offset + 7),
+          height: sample.readUInt16BE(offset + 5),
+        };
+      }
+      offset += 2 + sample.readUInt16BE(offset + 2);
+    }
+
+    return undefined;
+  }
+}
@@ -1,7 +1,33 @@
-import * as path from "path";
 import * as vscode from "vscode";
-import { ConfigKey, SummaryToolConfig } from "../models/types";
+import {
+  DIFF,
+  PROFILES,
+  SECRET_PATTERNS,
+  STRUCTURE_FORMAT_LABELS,
+  STRUCTURE_LIMITS,
+} from "../constants";
+import {
+  CompressionPass,
+  ConfigKey,
+  ContextProfiles,
+  CopyLayout,
+  DiffMode,
+  OutputFormat,
+  RedactionMode,
+  RuleAction,
+  SecretDetector,
+  StructureFormat,
+  StructureLimitOverrides,
+  SummaryToolConfig,
+  TokenBudgetMode,
+  TokenizerMethod,
+  WatchOutput,
+  WorkspaceRoot,
+} from "../models/types";
 import { PathUtils } from "../utils/pathUtils";
+import { ExclusionMatcher } from "./exclusionMatcher";
+import { OutlineGenerator } from "./outlineGenerator";
+import { StructureRenderer } from "./structureRenderer";
 
 export class ConfigManager {
   private static instance: ConfigManager;
@@ -22,12 +48,105 @@ export class ConfigManager {
       defaultTargetFolder:
         config.get<string>(ConfigKey.DEFAULT_TARGET_FOLDER) ||
         ".claude/contexts",
-      track: config.get<string[]>(ConfigKey.TRACK) || [],
-      untrack: config.get<string[]>(ConfigKey.UNTRACK) || [],
-      ignoreStructure: config.get<string[]>(ConfigKey.IGNORE_STRUCTURE) || [],
+      rules: config.get<string[]>(ConfigKey.RULES) || [],
+      maxTokens: config.get<number>(ConfigKey.MAX_TOKENS) || 0,
+      tokenBudgetMode:
+        config.get<TokenBudgetMode>(ConfigKey.TOKEN_BUDGET_MODE) || "stop",
+      tokenizer: config.get<TokenizerMethod>(ConfigKey.TOKENIZER) || "cl100k",
+      respectGitignore:
+        config.get<boolean>(ConfigKey.RESPECT_GITIGNORE) ?? false,
+      outputFormat: config.get<OutputFormat>(ConfigKey.OUTPUT_FORMAT) || "text",
+      structureFormat:
+        config.get<StructureFormat>(ConfigKey.STRUCTURE_FORMAT) || "tree",
+      structureMaxDepth:
+        config.get<number>(ConfigKey.STRUCTURE_MAX_DEPTH) ??
+        STRUCTURE_LIMITS.DEFAULT_MAX_DEPTH,
+      structureMaxChildren:
+        config.get<number>(ConfigKey.STRUCTURE_MAX_CHILDREN) ??
+        STRUCTURE_LIMITS.DEFAULT_MAX_CHILDREN,
+      structureLimitOverrides:
+        config.get<StructureLimitOverrides>(
+          ConfigKey.STRUCTURE_LIMIT_OVERRIDES
+        ) || {},
+      copyLayout: config.get<CopyLayout>(ConfigKey.COPY_LAYOUT) || "flat",
+      clipboardWarningSizeKb:
+        config.get<number>(ConfigKey.CLIPBOARD_WARNING_SIZE_KB) ?? 1024,
+      watchOutput:
+        config.get<WatchOutput>(ConfigKey.WATCH_OUTPUT) || "single-file",
+      gitChanges: config.get<string[]>(ConfigKey.GIT_CHANGES) || [],
+      diffMode: config.get<DiffMode>(ConfigKey.DIFF_MODE) || "off",
+      diffBase: config.get<string>(ConfigKey.DIFF_BASE) || DIFF.DEFAULT_BASE,
+      diffContextLines:
+        config.get<number>(ConfigKey.DIFF_CONTEXT_LINES) ??
+        DIFF.DEFAULT_CONTEXT_LINES,
+      outline: config.get<string[]>(ConfigKey.OUTLINE) || [],
+      compression: config.get<CompressionPass[]>(ConfigKey.COMPRESSION) || [],
+      compressionKeepDocComments:
+        config.get<boolean>(ConfigKey.COMPRESSION_KEEP_DOC_COMMENTS) ?? true,
+      redaction: config.get<RedactionMode>(ConfigKey.REDACTION) || "off",
+      redactionDetectors:
+        config.get<SecretDetector[]>(ConfigKey.REDACTION_DETECTORS) ??
+        (Object.keys(SECRET_PATTERNS) as SecretDetector[]),
+      redactionPatterns:
+        config.get<string[]>(ConfigKey.REDACTION_PATTERNS) || [],
     };
   }
 
+  /**
+   * Convert track / untrack / ignore-structure settings into the ordered
+   * rule list, in user and workspace settings alike, then remove the
+   * legacy settings
+   */
+  public async migrateLegacyConfig(): Promise<boolean> {
+    const config = vscode.workspace.getConfiguration();
+    const track = config.inspect<string[]>(ConfigKey.TRACK);
+    const untrack = config.inspect<string[]>(ConfigKey.UNTRACK);
+    const ignoreStructure = config.inspect<string[]>(
+      ConfigKey.IGNORE_STRUCTURE
+    );
+    const rules = config.inspect<string[]>(ConfigKey.RULES);
+
+    let migrated = false;
+    for (const [scope, target] of [
+      ["globalValue", vscode.ConfigurationTarget.Global],
+      ["workspaceValue", vscode.ConfigurationTarget.Workspace],
+    ] as const) {
+      const hasLegacyConfig =
+        track?.[scope] !== undefined ||
+        untrack?.[scope] !== undefined ||
+        ignoreStructure?.[scope] !== undefined;
+      if (!hasLegacyConfig) {
+        continue;
+      }
+
+      // Never overwrite rules the user already has. Unset lists fall back
+      // to the user settings, then the defaults, as they did before.
+      if (rules?.[scope] === undefined) {
+        const migratedRules = ExclusionMatcher.migrateLegacyRules(
+          track?.[scope] ?? track?.globalValue ?? [],
+          untrack?.[scope] ??
+            untrack?.globalValue ??
+            untrack?.defaultValue ??
+            [],
+          ignoreStructure?.[scope] ??
+            ignoreStructure?.globalValue ??
+            ignoreStructure?.defaultValue ??
+            []
+        );
+        await config.update(ConfigKey.RULES, migratedRules, target);
+      }
+
+      await Promise.all(
+        [ConfigKey.TRACK, ConfigKey.UNTRACK, ConfigKey.IGNORE_STRUCTURE].map(
+          (key) => config.update(key, undefined, target)
+        )
+      );
+      migrated = true;
+    }
+
+    return migrated;
+  }
+
   public async updateTargetFolderToDefaultFolder(): Promise<string> {
     const defaultTargetFolder = this.getDefaultTargetFolderPath();
     // Create that folder if it doesn't exist
@@ -49,130 +168,379 @@ export class ConfigManager {
       );
   }
 
-  public async addToTrack(itemPath: string): Promise<void> {
-    const currentTrack = this.getConfig().track;
-    const workspacePath = this.getWorkspacePath();
+  public async updateRules(rules: string[]): Promise<void> {
+    await vscode.workspace
+      .getConfiguration()
+      .update(ConfigKey.RULES, rules, vscode.ConfigurationTarget.Workspace);
+  }
 
-    if (!workspacePath) {
-      throw new Error("No workspace folder is open");
+  public async updateGitChanges(sources: string[]): Promise<void> {
+    await vscode.workspace
+      .getConfiguration()
+      .update(
+        ConfigKey.GIT_CHANGES,
+        sources,
+        vscode.ConfigurationTarget.Workspace
+      );
+  }
+
+  public async removeGitChange(source: string): Promise<void> {
+    const currentSources = this.getConfig().gitChanges;
+    if (currentSources.includes(source)) {
+      await this.updateGitChanges(
+        currentSources.filter((item) => item !== source)
+      );
     }
+  }
 
-    const relativePath = path.relative(workspacePath, itemPath);
+  public async removeRules(rules: string[]): Promise<void> {
+    const currentRules = this.getConfig().rules;
+    const updatedRules = currentRules.filter((item) => !rules.includes(item));
 
-    if (!currentTrack.includes(relativePath)) {
-      const updatedTrack = [...currentTrack, relativePath];
-      await vscode.workspace
-        .getConfiguration()
-        .update(
-          ConfigKey.TRACK,
-          updatedTrack,
-          vscode.ConfigurationTarget.Workspace
-        );
+    if (updatedRules.length !== currentRules.length) {
+      await this.updateRules(updatedRules);
     }
   }
 
+  public async addToTrack(itemPath: string): Promise<void> {
+    await this.setRule("include", itemPath);
+  }
+
   public async addToUntrack(itemPath: string): Promise<void> {
-    const currentUntrack = this.getConfig().untrack;
-    const workspacePath = this.getWorkspacePath();
+    await this.setRule("exclude", itemPath);
+  }
+
+  public async removeFromTrack(itemPath: string): Promise<void> {
+    await this.removeRule("include", itemPath);
+  }
+
+  public async removeFromUntrack(itemPath: string): Promise<void> {
+    await this.removeRule("exclude", itemPath);
+  }
+
+  public async toggleIgnoreStructure(itemPath: string): Promise<void> {
+    const relativePath = this.getRelativeItemPath(itemPath);
+
+    if (this.hasRule("collapse", itemPath)) {
+      // Remove from ignore structure
+      await this.removeRule("collapse", itemPath);
+      vscode.window.setStatusBarMessage(
+        `Removed folder from ignore structure: ${relativePath}`
+      );
+    } else {
+      await this.updateRules([
+        ...this.getConfig().rules,
+        ExclusionMatcher.formatRule("collapse", relativePath),
+      ]);
+      vscode.window.setStatusBarMessage(
+        `Added folder to ignore structure: ${relativePath}`
+      );
+    }
+  }
+
+  /**
+   * Switch a file between outline and full content. Entries for exactly
+   * this path are replaced; one is only added when a pattern does not
+   * already give the new level.
+   */
+  public async toggleOutline(itemPath: string): Promise<void> {
+    const relativePath = this.getRelativeItemPath(itemPath);
+    const currentEntries = this.getConfig().outline;
+    const wasOutlined =
+      OutlineGenerator.getDetailLevel(
+        OutlineGenerator.createLevelMatcher(currentEntries),
+        relativePath
+      ) === "outline";
+
+    const ownEntries = [
+      relativePath,
+      ExclusionMatcher.formatRule("include", relativePath),
+      ExclusionMatcher.formatRule("exclude", relativePath),
+    ];
+    const entries = currentEntries.filter(
+      (entry) => !ownEntries.includes(entry.trim())
+    );
+    const isOutlinedByPattern =
+      OutlineGenerator.getDetailLevel(
+        OutlineGenerator.createLevelMatcher(entries),
+        relativePath
+      ) === "outline";
+
+    if (isOutlinedByPattern === wasOutlined) {
+      entries.push(
+        wasOutlined
+          ? ExclusionMatcher.formatRule("exclude", relativePath)
+          : relativePath
+      );
+    }
+
+    await vscode.workspace
+      .getConfiguration()
+      .update(ConfigKey.OUTLINE, entries, vscode.ConfigurationTarget.Workspace);
+    vscode.window.setStatusBarMessage(
+      wasOutlined
+        ? `Including full content: ${relativePath}`
+        : `Including outline only: ${relativePath}`
+    );
+  }
+
+  /**
+   * Replace any include/exclude rule for exactly this path with a new rule
+   * at the end of the list, so it takes precedence over earlier patterns
+   */
+  private async setRule(action: RuleAction, itemPath: string): Promise<void> {
+    const relativePath = this.getRelativeItemPath(itemPath);
+    const replaced = [
+      ExclusionMatcher.formatRule("include", relativePath),
+      ExclusionMatcher.formatRule("exclude", relativePath),
+    ];
+    const rule = ExclusionMatcher.formatRule(action, relativePath);
+    const currentRules = this.getConfig().rules;
+
+    if (currentRules[currentRules.length - 1] === rule) {
+      return;
+    }
+
+    await this.updateRules([
+      ...currentRules.filter((item) => !replaced.includes(item)),
+      rule,
+    ]);
+  }
+
+  private async removeRule(
+    action: RuleAction,
+    itemPath: string
+  ): Promise<void> {
+    const rule = ExclusionMatcher.formatRule(
+      action,
+      this.getRelativeItemPath(itemPath)
+    );
+    const currentRules = this.getConfig().rules;
+
+    if (currentRules.includes(rule)) {
+      await this.updateRules(currentRules.filter((item) => item !== rule));
+    }
+  }
 
-    if (!workspacePath) {
+  private hasRule(action: RuleAction, itemPath: string): boolean {
+    if (!this.getWorkspacePath()) {
+      return false;
+    }
+
+    const relativePath = this.getRelativeItemPath(itemPath);
+    return this.getConfig().rules.includes(
+      ExclusionMatcher.formatRule(action, relativePath)
+    );
+  }
+
+  /**
+   * Workspace relative path used in rules, with a "folder:" prefix in
+   * multi-root workspaces
+   */
+  private getRelativeItemPath(itemPath: string): string {
+    if (!this.getWorkspacePath()) {
       throw new Error("No workspace folder is open");
     }
 
-    const relativePath = path.relative(workspacePath, itemPath);
+    return PathUtils.getRelativePathFromWorkspace(itemPath).replace(/\\/g, "/");
+  }
 
-    // Add to untrack if not already present
-    if (!currentUntrack.includes(relativePath)) {
-      const updatedUntrack = [...currentUntrack, relativePath];
-      await vscode.workspace
+  public getActiveProfile(): string {
+    return (
+      vscode.workspace
         .getConfiguration()
-        .update(
-          ConfigKey.UNTRACK,
-          updatedUntrack,
-          vscode.ConfigurationTarget.Workspace
-        );
+        .get<string>(ConfigKey.ACTIVE_PROFILE) || PROFILES.DEFAULT_NAME
+    );
+  }
+
+  /**
+   * All profile names, the active one included even before it is saved
+   */
+  public getProfileNames(): string[] {
+    const names = Object.keys(this.getSavedProfiles());
+    const activeProfile = this.getActiveProfile();
+    return names.includes(activeProfile) ? names : [activeProfile, ...names];
+  }
+
+  /**
+   * Rules of a profile. The active profile's rules are the live rule list.
+   */
+  public getProfileRules(name: string): string[] {
+    if (name === this.getActiveProfile()) {
+      return this.getConfig().rules;
     }
+    return this.getSavedProfiles()[name] ?? [];
   }
 
-  public async removeFromTrack(itemPath: string): Promise<void> {
-    const currentTrack = this.getConfig().track;
-    const workspacePath = this.getWorkspacePath();
+  public async createProfile(name: string): Promise<void> {
+    this.assertProfileDoesNotExist(name);
 
-    if (!workspacePath) {
-      throw new Error("No workspace folder is open");
+    // New profiles start from the default rules
+    const defaultRules =
+      vscode.workspace.getConfiguration().inspect<string[]>(ConfigKey.RULES)
+        ?.defaultValue ?? [];
+    await this.updateProfiles({
+      ...this.getSavedProfiles(),
+      [name]: defaultRules,
+    });
+    await this.switchProfile(name);
+  }
+
+  public async duplicateProfile(source: string, name: string): Promise<void> {
+    this.assertProfileDoesNotExist(name);
+
+    await this.updateProfiles({
+      ...this.getSavedProfiles(),
+      [name]: [...this.getProfileRules(source)],
+    });
+    await this.switchProfile(name);
+  }
+
+  /**
+   * Save the live rules into the active profile, then load the other one
+   */
+  public async switchProfile(name: string): Promise<void> {
+    const activeProfile = this.getActiveProfile();
+    if (name === activeProfile) {
+      return;
     }
 
-    const relativePath = path.relative(workspacePath, itemPath);
-    const updatedTrack = currentTrack.filter((item) => item !== relativePath);
+    const profiles = this.getSavedProfiles();
+    const rules = profiles[name];
+    if (!rules) {
+      throw new Error(`Profile "${name}" does not exist`);
+    }
 
-    await vscode.workspace
-      .getConfiguration()
-      .update(
-        ConfigKey.TRACK,
-        updatedTrack,
-        vscode.ConfigurationTarget.Workspace
-      );
+    await this.updateProfiles({
+      ...profiles,
+      [activeProfile]: this.getConfig().rules,
+    });
+    await this.updateRules(rules);
+    await this.setActiveProfile(name);
   }
 
-  public async removeFromUntrack(itemPath: string): Promise<void> {
-    const currentUntrack = this.getConfig().untrack;
-    const workspacePath = this.getWorkspacePath();
+  public async renameProfile(oldName: string, newName: string): Promise<void> {
+    if (oldName === newName) {
+      return;
+    }
+    this.assertProfileDoesNotExist(newName);
 
-    if (!workspacePath) {
-      throw new Error("No workspace folder is open");
+    const profiles = this.getSavedProfiles();
+    const renamed: ContextProfiles = {};
+    for (const name of this.getProfileNames()) {
+      renamed[name === oldName ? newName : name] = profiles[name] ?? [];
+    }
+    if (oldName === this.getActiveProfile()) {
+      renamed[newName] = this.getConfig().rules;
+      await this.setActiveProfile(newName);
+    }
+
+    await this.updateProfiles(renamed);
+  }
+
+  public async deleteProfile(name: string): Promise<void> {
+    const remaining = this.getProfileNames().filter((item) => item !== name);
+    if (remaining.length === 0) {
+      throw new Error("The last profile cannot be deleted");
+    }
+
+    if (name === this.getActiveProfile()) {
+      await this.switchProfile(remaining[0]);
+    }
+
+    const profiles = { ...this.getSavedProfiles() };
+    delete profiles[name];
+    await this.updateProfiles(profiles);
+  }
+
+  /**
+   * Ask which profiles to summarize when there is more than one.
+   * Returns undefined if the user cancelled.
+   */
+  public async showSelectProfilesDialog(): Promise<string[] | undefined> {
+    const activeProfile = this.getActiveProfile();
+    const names = this.getProfileNames();
+    if (names.length === 1) {
+      return names;
     }
 
-    const relativePath = path.relative(workspacePath, itemPath);
-    const updatedUntrack = currentUntrack.filter(
-      (item) => item !== relativePath
+    const picked = await vscode.window.showQuickPick(
+      names.map((name) => ({
+        label: name,
+        description: name === activeProfile ? "active" : undefined,
+        picked: name === activeProfile,
+      })),
+      {
+        placeHolder:
+          "Select profiles to summarize (several are written to sub-folders)",
+        canPickMany: true,
+        ignoreFocusOut: true,
+      }
     );
 
-    await vscode.workspace
-      .getConfiguration()
-      .update(
-        ConfigKey.UNTRACK,
-        updatedUntrack,
-        vscode.ConfigurationTarget.Workspace
-      );
+    return picked?.map((item) => item.label);
   }
 
-  public async toggleIgnoreStructure(itemPath: string): Promise<void> {
-    const currentIgnoreStructure = this.getConfig().ignoreStructure;
-    const workspacePath = this.getWorkspacePath();
+  /**
+   * Ask for the structure format of this run, offering the configured one
+   * first
+   */
+  public async showSelectStructureFormatDialog(): Promise<
+    StructureFormat | undefined
+  > {
+    const configuredFormat = this.getConfig().structureFormat;
+    const formats = (
+      Object.keys(STRUCTURE_FORMAT_LABELS) as StructureFormat[]
+    ).sort(
+      (a, b) => Number(b === configuredFormat) - Number(a === configuredFormat)
+    );
 
-    if (!workspacePath) {
-      throw new Error("No workspace folder is open");
-    }
+    const picked = await vscode.window.showQuickPick(
+      formats.map((format) => ({
+        label: STRUCTURE_FORMAT_LABELS[format],
+        description: new StructureRenderer(format).getFileName(),
+        format,
+      })),
+      {
+        placeHolder: "Select format of the structure summary",
+        ignoreFocusOut: true,
+      }
+    );
 
-    const relativePath = path.relative(workspacePath, itemPath);
+    return picked?.format;
+  }
 
-    if (currentIgnoreStructure.includes(relativePath)) {
-      // Remove from ignore structure
-      const updatedIgnoreStructure = currentIgnoreStructure.filter(
-        (item) => item !== relativePath
-      );
-      await vscode.workspace
+  private getSavedProfiles(): ContextProfiles {
+    return (
+      vscode.workspace
         .getConfiguration()
-        .update(
-          ConfigKey.IGNORE_STRUCTURE,
-          updatedIgnoreStructure,
-          vscode.ConfigurationTarget.Workspace
-        );
-      vscode.window.setStatusBarMessage(
-        `Removed folder from ignore structure: ${relativePath}`
+        .get<ContextProfiles>(ConfigKey.PROFILES) || {}
+    );
+  }
+
+  private async updateProfiles(profiles: ContextProfiles): Promise<void> {
+    await vscode.workspace
+      .getConfiguration()
+      .update(
+        ConfigKey.PROFILES,
+        profiles,
+        vscode.ConfigurationTarget.Workspace
       );
-    } else {
-      const updatedIgnoreStructure = [...currentIgnoreStructure, relativePath];
-      await vscode.workspace
-        .getConfiguration()
-        .update(
-          ConfigKey.IGNORE_STRUCTURE,
-          updatedIgnoreStructure,
-          vscode.ConfigurationTarget.Workspace
-        );
-      vscode.window.setStatusBarMessage(
-        `Added folder to ignore structure: ${relativePath}`
+  }
+
+  private async setActiveProfile(name: string): Promise<void> {
+    await vscode.workspace
+      .getConfiguration()
+      .update(
+        ConfigKey.ACTIVE_PROFILE,
+        name,
+        vscode.ConfigurationTarget.Workspace
       );
+  }
+
+  private assertProfileDoesNotExist(name: string): void {
+    if (this.getProfileNames().includes(name)) {
+      throw new Error(`Profile "${name}" already exists`);
     }
   }
 
@@ -201,6 +569,11 @@ export class ConfigManager {
 
     // Set to undefined to remove workspace overrides (revert to defaults)
     await Promise.all([
+      config.update(
+        ConfigKey.RULES,
+        undefined,
+        vscode.ConfigurationTarget.Workspace
+      ),
       config.update(
         ConfigKey.TRACK,
         undefined,
@@ -221,6 +594,22 @@ export class ConfigManager {
         undefined,
         vscode.ConfigurationTarget.Workspace
       ),
+      config.update(
+        ConfigKey.GIT_CHANGES,
+        undefined,
+        vscode.ConfigurationTarget.Workspace
+      ),
+      // Saved profiles would no longer match the live rules
+      config.update(
+        ConfigKey.PROFILES,
+        undefined,
+        vscode.ConfigurationTarget.Workspace
+      ),
+      config.update(
+        ConfigKey.ACTIVE_PROFILE,
+        undefined,
+        vscode.ConfigurationTarget.Workspace
+      ),
     ]);
   }
 
@@ -229,6 +618,10 @@ export class ConfigManager {
     return workspaceFolders?.[0]?.uri.fsPath;
   }
 
+  public getWorkspaceRoots(): WorkspaceRoot[] {
+    return PathUtils.getWorkspaceRoots();
+  }
+
   public getTargetFolder(): string {
     const config = this.getConfig();
     return config.targetFolder;
@@ -240,26 +633,14 @@ export class ConfigManager {
   }
 
   public isItemTracked(itemPath: string): boolean {
-    const config = this.getConfig();
-    const workspacePath = this.getWorkspacePath();
-
-    if (!workspacePath) {
-      return false;
-    }
-
-    const relativePath = path.relative(workspacePath, itemPath);
-    return config.track.includes(relativePath);
+    return this.hasRule("include", itemPath);
   }
 
   public isItemUntracked(itemPath: string): boolean {
-    const config = this.getConfig();
-    const workspacePath = this.getWorkspacePath();
-
-    if (!workspacePath) {
-      return false;
-    }
+    return this.hasRule("exclude", itemPath);
+  }
 
-    const relativePath = path.relative(workspacePath, itemPath);
-    return config.untrack.includes(relativePath);
+  public isItemIgnoredInStructure(itemPath: string): boolean {
+    return this.hasRule("collapse", itemPath);
   }
 }
@@ -0,0 +1,272 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { CACHE } from "../constants";
+import {
+  CachedDirectoryEntry,
+  CacheKind,
+  CacheStats,
+  ContentCacheData,
+  TokenCount,
+  TokenizerMethod,
+} from "../models/types";
+import { PathUtils } from "../utils/pathUtils";
+
+/**
+ * Persistent cache shared by all runs, stored in the extension's
+ * workspace storage. File hashes and directory listings are reused while
+ * mtime and size are unchanged; token counts are keyed on a content hash.
+ */
+export class ContentCache {
+  private static instance: ContentCache;
+  private storagePath: string | null = null;
+  private data: ContentCacheData | null = null;
+  private usedKeys: { [kind in CacheKind]: Set<string> } =
+    ContentCache.createUsedKeys();
+  private stats: CacheStats = ContentCache.createStats();
+  private isDirty: boolean = false;
+
+  private constructor() {}
+
+  public static getInstance(): ContentCache {
+    if (!ContentCache.instance) {
+      ContentCache.instance = new ContentCache();
+    }
+    return ContentCache.instance;
+  }
+
+  /**
+   * Without a storage path (no workspace open) the cache is memory only
+   */
+  public setStoragePath(storagePath: string | undefined): void {
+    this.storagePath = storagePath ?? null;
+    this.data = null;
+  }
+
+  /**
+   * Start counting hits and misses for a new run
+   */
+  public resetStats(): void {
+    this.stats = ContentCache.createStats();
+    this.usedKeys = ContentCache.createUsedKeys();
+  }
+
+  public getStats(): CacheStats {
+    return this.stats;
+  }
+
+  public async getFileHash(
+    filePath: string,
+    stats: fs.Stats,
+    computeHash: () => Promise<string>
+  ): Promise<string> {
+    const data = this.getData();
+    const cached = data.files[filePath];
+
+    this.usedKeys.files.add(filePath);
+    if (
+      cached &&
+      cached.mtimeMs === stats.mtimeMs &&
+      cached.size === stats.size
+    ) {
+      this.stats.files.hits++;
+      return cached.sha256;
+    }
+
+    this.stats.files.misses++;
+    const sha256 = await computeHash();
+    data.files[filePath] = {
+      mtimeMs: stats.mtimeMs,
+      size: stats.size,
+      sha256,
+    };
+    this.isDirty = true;
+    return sha256;
+  }
+
+  /**
+   * List a directory, reusing the previous listing while the directory's
+   * mtime is unchanged (adding, removing or renaming entries changes it)
+   */
+  public async readDirectory(
+    directoryPath: string
+  ): Promise<CachedDirectoryEntry[]> {
+    const stats = await PathUtils.getFileStats(directoryPath);
+    if (!stats) {
+      throw new Error(`Directory does not exist: ${directoryPath}`);
+    }
+
+    const data = this.getData();
+    const cached = data.directories[directoryPath];
+
+    this.usedKeys.directories.add(directoryPath);
+    if (cached && cached.mtimeMs === stats.mtimeMs) {
+      this.stats.directories.hits++;
+      return cached.entries;
+    }
+
+    this.stats.directories.misses++;
+    const entries: CachedDirectoryEntry[] = [];
+    for (const name of await fs.promises.readdir(directoryPath)) {
+      const entryStats = await PathUtils.getFileStats(
+        path.join(directoryPath, name)
+      );
+      if (entryStats) {
+        entries.push({
+          name,
+          isFile: entryStats.isFile(),
+          isDirectory: entryStats.isDirectory(),
+        });
+      }
+    }
+
+    data.directories[directoryPath] = { mtimeMs: stats.mtimeMs, entries };
+    this.isDirty = true;
+    return entries;
+  }
+
+  /**
+   * Counts are stored under the method that produced them, so an estimate
+   * made in place of the requested method is never reused as its count
+   */
+  public getTokenCount(
+    text: string,
+    method: TokenizerMethod,
+    count: (text: string) => TokenCount
+  ): TokenCount {
+    const hash = crypto.createHash("sha256").update(text).digest("hex");
+    const key = `${method}:${hash}`;
+    const data = this.getData();
+    const cached = data.tokens[key];
+
+    this.usedKeys.tokens.add(key);
+    if (cached !== undefined) {
+      this.stats.tokens.hits++;
+      return { tokens: cached, method };
+    }
+
+    this.stats.tokens.misses++;
+    const counted = count(text);
+    const countedKey = `${counted.method}:${hash}`;
+    this.usedKeys.tokens.add(countedKey);
+    data.tokens[countedKey] = counted.tokens;
+    this.isDirty = true;
+    return counted;
+  }
+
+  /**
+   * Structure file an earlier run wrote to a folder, the only one a run
+   * may remove when it writes another format
+   */
+  public getStructureFile(directoryPath: string): string | undefined {
+    return this.getData().structureFiles?.[directoryPath];
+  }
+
+  public setStructureFile(directoryPath: string, fileName: string): void {
+    const data = this.getData();
+    data.structureFiles ??= {};
+    if (data.structureFiles[directoryPath] !== fileName) {
+      data.structureFiles[directoryPath] = fileName;
+      this.isDirty = true;
+    }
+  }
+
+  /**
+   * Persist the cache. Oversized sections keep only what this run used.
+   */
+  public async save(): Promise<void> {
+    if (!this.storagePath || !this.data || !this.isDirty) {
+      return;
+    }
+
+    for (const kind of Object.keys(this.usedKeys) as CacheKind[]) {
+      const section = this.data[kind];
+      if (Object.keys(section).length > CACHE.MAX_ENTRIES) {
+        for (const key of Object.keys(section)) {
+          if (!this.usedKeys[kind].has(key)) {
+            delete section[key];
+          }
+        }
+      }
+    }
+
+    try {
+      PathUtils.ensureDirectoryExists(this.storagePath);
+      await fs.promises.writeFile(
+        path.join(this.storagePath, CACHE.FILE_NAME),
+        JSON.stringify(this.data),
+        "utf8"
+      );
+      this.isDirty = false;
+    } catch (error) {
+      console.error("Error saving content cache:", error);
+    }
+  }
+
+  /**
+   * Describe hit rates, e.g. "files 98%, folders 100%, tokens 95%"
+   */
+  public static formatStats(stats: CacheStats): string {
+    const labels: { [kind in CacheKind]: string } = {
+      files: "files",
+      directories: "folders",
+      tokens: "tokens",
+    };
+
+    return (Object.keys(labels) as CacheKind[])
+      .filter((kind) => stats[kind].hits + stats[kind].misses > 0)
+      .map((kind) => {
+        const { hits, misses } = stats[kind];
+        return `${labels[kind]} ${Math.round((hits / (hits + misses)) * 100)}%`;
+      })
+      .join(", ");
+  }
+
+  private getData(): ContentCacheData {
+    if (!this.data) {
+      this.data = this.load();
+    }
+    return this.data;
+  }
+
+  private load(): ContentCacheData {
+    const empty: ContentCacheData = {
+      version: CACHE.VERSION,
+      files: {},
+      directories: {},
+      tokens: {},
+      structureFiles: {},
+    };
+    if (!this.storagePath) {
+      return empty;
+    }
+
+    try {
+      const content = fs.readFileSync(
+        path.join(this.storagePath, CACHE.FILE_NAME),
+        "utf8"
+      );
+      const data = JSON.parse(content) as ContentCacheData;
+      return data.version === CACHE.VERSION ? data : empty;
+    } catch {
+      // No cache yet, or an unreadable one that gets replaced
+      return empty;
+    }
+  }
+
+  private static createStats(): CacheStats {
+    return {
+      files: { hits: 0, misses: 0 },
+      directories: { hits: 0, misses: 0 },
+      tokens: { hits: 0, misses: 0 },
+    };
+  }
+
+  private static createUsedKeys(): { [kind in CacheKind]: Set<string> } {
+    return {
+      files: new Set(),
+      directories: new Set(),
+      tokens: new Set(),
+    };
+  }
+}
@@ -0,0 +1,464 @@
+import { COMMENT_SYNTAX, COMPRESSION } from "../constants";
+import { CommentSyntax, CompressionOptions } from "../models/types";
+
+interface Token {
+  type: "code" | "string" | "comment";
+  text: string;
+}
+
+interface Line {
+  text: string;
+  removedComment: boolean;
+  startsInString: boolean; // Continues a multi-line string, never changed
+  endsInString: boolean;
+}
+
+// Keywords after which "/" starts a regex literal rather than a division
+const REGEX_KEYWORDS = new Set([
+  "await",
+  "case",
+  "delete",
+  "do",
+  "else",
+  "in",
+  "instanceof",
+  "new",
+  "of",
+  "return",
+  "throw",
+  "typeof",
+  "void",
+  "yield",
+]);
+
+const REGEX_PRECEDING_CHARACTERS = "(,=:[!&|?{};+-*%<>~^";
+
+/**
+ * Shrinks text files before they are combined: drops license banners and
+ * comments, collapses blank lines and narrows indentation. Languages are
+ * tokenized so string literals are never changed; files in languages
+ * without a known comment syntax only have blank lines collapsed.
+ */
+export class ContentCompressor {
+  constructor(private options: CompressionOptions) {}
+
+  public compress(content: string, language: string): string {
+    const passes = new Set(this.options.passes);
+    const syntax = COMMENT_SYNTAX[language] as CommentSyntax | undefined;
+    const endsWithNewline = content.endsWith("\n");
+    const body = endsWithNewline ? content.slice(0, -1) : content;
+
+    let lines: Line[];
+    if (syntax) {
+      const tokens = ContentCompressor.tokenize(body, syntax);
+      const removed = new Set<Token>();
+      if (passes.has("license-headers")) {
+        ContentCompressor.findLicenseHeader(tokens).forEach((token) =>
+          removed.add(token)
+        );
+      }
+      if (passes.has("comments")) {
+        tokens
+          .filter(
+            (token) =>
+              token.type === "comment" &&
+              !ContentCompressor.isShebang(token) &&
+              !(
+                this.options.keepDocComments &&
+                ContentCompressor.isDocComment(token, syntax)
+              )
+          )
+          .forEach((token) => removed.add(token));
+      }
+      lines = ContentCompressor.toLines(tokens, removed);
+    } else {
+      lines = ContentCompressor.toLines([{ type: "code", text: body }]);
+    }
+
+    if (passes.has("blank-lines")) {
+      lines = ContentCompressor.collapseBlankLines(lines);
+    }
+    if (
+      passes.has("indentation") &&
+      syntax &&
+      !(COMPRESSION.TAB_INDENTED_LANGUAGES as readonly string[]).includes(
+        language
+      )
+    ) {
+      lines = ContentCompressor.normalizeIndentation(lines);
+    }
+
+    const result = lines.map((line) => line.text).join("\n");
+    return endsWithNewline ? result + "\n" : result;
+  }
+
+  /**
+   * Split content into code, string and comment tokens. A single-line
+   * string without its closing delimiter ends at the newline, so unusual
+   * syntax only ever leaves comments in place.
+   */
+  private static tokenize(content: string, syntax: CommentSyntax): Token[] {
+    const tokens: Token[] = [];
+    let code = "";
+    let index = 0;
+
+    const push = (type: Token["type"], end: number) => {
+      if (code) {
+        tokens.push({ type: "code", text: code });
+        code = "";
+      }
+      tokens.push({ type, text: content.slice(index, end) });
+      index = end;
+    };
+
+    while (index < content.length) {
+      const blockComment = syntax.blockComments.find(([open]) =>
+        content.startsWith(open, index)
+      );
+      if (blockComment) {
+        const close = content.indexOf(
+          blockComment[1],
+          index + blockComment[0].length
+        );
+        push(
+          "comment",
+          close === -1 ? content.length : close + blockComment[1].length
+        );
+        continue;
+      }
+
+      const lineComment = syntax.lineComments.find(
+        (open) =>
+          content.startsWith(open, index) &&
+          // "#" is also used inside words and expressions, e.g. "${#list}"
+          (open !== "#" || index === 0 || /\s/.test(content[index - 1])) &&
+          !syntax.notComments?.some((prefix) =>
+            content.startsWith(prefix, index)
+          )
+      );
+      if (lineComment) {
+        const newline = content.indexOf("\n", index);
+        push("comment", newline === -1 ? content.length : newline);
+        continue;
+      }
+
+      const delimiter = syntax.strings.find((open) =>
+        content.startsWith(open, index)
+      );
+      if (delimiter) {
+        push(
+          "string",
+          ContentCompressor.findStringEnd(content, index, delimiter, syntax)
+        );
+        continue;
+      }
+
+      if (
+        syntax.regexLiterals &&
+        content[index] === "/" &&
+        ContentCompressor.canStartRegex(content, index)
+      ) {
+        const end = ContentCompressor.findRegexEnd(content, index);
+        if (end !== -1) {
+          push("string", end);
+          continue;
+        }
+      }
+
+      code += content[index];
+      index++;
+    }
+
+    if (code) {
+      tokens.push({ type: "code", text: code });
+    }
+    return tokens;
+  }
+
+  /**
+   * End of the string starting at start. "${…}" substitutions of template
+   * strings are skipped as a whole, so strings nested in them do not end
+   * the outer one.
+   */
+  private static findStringEnd(
+    content: string,
+    start: number,
+    delimiter: string,
+    syntax: CommentSyntax
+  ): number {
+    const isMultiLine = syntax.multiLineStrings.includes(delimiter);
+    const hasSubstitutions = syntax.templateStrings?.includes(delimiter);
+    let index = start + delimiter.length;
+    while (index < content.length) {
+      if (content[index] === "\\") {
+        index += 2;
+      } else if (hasSubstitutions && content.startsWith("${", index)) {
+        index = ContentCompressor.findSubstitutionEnd(
+          content,
+          index + 2,
+          syntax,
+          isMultiLine
+        );
+      } else if (content.startsWith(delimiter, index)) {
+        return index + delimiter.length;
+      } else if (content[index] === "\n" && !isMultiLine) {
+        return index;
+      } else {
+        index++;
+      }
+    }
+    return content.length;
+  }
+
+  /**
+   * End of the "${…}" substitution whose code starts at start: braces are
+   * counted and the strings inside skipped. In a single-line string the
+   * substitution also ends at the newline.
+   */
+  private static findSubstitutionEnd(
+    content: string,
+    start: number,
+    syntax: CommentSyntax,
+    isMultiLine: boolean
+  ): number {
+    let depth = 1;
+    let index = start;
+    while (index < content.length) {
+      const delimiter = syntax.strings.find((open) =>
+        content.startsWith(open, index)
+      );
+      if (delimiter) {
+        index = ContentCompressor.findStringEnd(
+          content,
+          index,
+          delimiter,
+          syntax
+        );
+        continue;
+      }
+
+      if (content[index] === "\n" && !isMultiLine) {
+        return index;
+      } else if (content[index] === "{") {
+        depth++;
+      } else if (content[index] === "}" && --depth === 0) {
+        return index + 1;
+      }
+      index++;
+    }
+    return content.length;
+  }
+
+  /**
+   * Whether "/" at index starts a regex literal, judged by the code
+   * before it
+   */
+  private static canStartRegex(content: string, index: number): boolean {
+    let previous = index - 1;
+    while (previous >= 0 && /\s/.test(content[previous])) {
+      previous--;
+    }
+    if (previous < 0) {
+      return true;
+    }
+    if (REGEX_PRECEDING_CHARACTERS.includes(content[previous])) {
+      return true;
+    }
+
+    const word = /[\w$]+$/.exec(
+      content.slice(Math.max(0, previous - 20), previous + 1)
+    );
+    return word !== null && REGEX_KEYWORDS.has(word[0]);
+  }
+
+  /**
+   * End of the regex literal starting at index, or -1 when the line ends
+   * first and "/" was a division after all
+   */
+  private static findRegexEnd(content: string, start: number): number {
+    let inClass = false;
+    for (let index = start + 1; index < content.length; index++) {
+      const character = content[index];
+      if (character === "\n") {
+        return -1;
+      } else if (character === "\\") {
+        index++;
+      } else if (character === "[") {
+        inClass = true;
+      } else if (character === "]") {
+        inClass = false;
+      } else if (character === "/" && !inClass) {
+        let end = index + 1;
+        while (end < content.length && /[a-z]/i.test(content[end])) {
+          end++; // Flags
+        }
+        return end;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * The first group of comments at the top of the file, separated only by
+   * line breaks, when it mentions a copyright or license
+   */
+  private static findLicenseHeader(tokens: Token[]): Token[] {
+    const group: Token[] = [];
+    for (const token of tokens) {
+      if (token.type === "comment") {
+        if (!ContentCompressor.isShebang(token)) {
+          group.push(token);
+        }
+      } else if (
+        token.type === "string" ||
+        token.text.trim() !== "" ||
+        // A blank line ends the group once it has started
+        (group.length > 0 && /\n[^\S\n]*\n/.test(token.text))
+      ) {
+        break;
+      }
+    }
+
+    return group.some((token) => COMPRESSION.LICENSE_PATTERN.test(token.text))
+      ? group
+      : [];
+  }
+
+  private static isShebang(token: Token): boolean {
+    return token.type === "comment" && token.text.startsWith("#!");
+  }
+
+  private static isDocComment(token: Token, syntax: CommentSyntax): boolean {
+    return (
+      token.text !== "/**/" &&
+      syntax.docComments.some((prefix) => token.text.startsWith(prefix))
+    );
+  }
+
+  /**
+   * Rebuild the lines, leaving out removed tokens. Lines that only held
+   * removed comments are dropped.
+   */
+  private static toLines(tokens: Token[], removed = new Set<Token>()): Line[] {
+    const lines: Line[] = [];
+    let current: Line = {
+      text: "",
+      removedComment: false,
+      startsInString: false,
+      endsInString: false,
+    };
+
+    for (const token of tokens) {
+      if (removed.has(token)) {
+        // Line breaks are kept, they can end statements
+        current.removedComment = true;
+        for (
+          let count = token.text.split("\n").length - 1;
+          count > 0;
+          count--
+        ) {
+          lines.push(current);
+          current = {
+            text: "",
+            removedComment: true,
+            startsInString: false,
+            endsInString: false,
+          };
+        }
+        continue;
+      }
+
+      const parts = token.text.split("\n");
+      current.text += parts[0];
+      for (const part of parts.slice(1)) {
+        current.endsInString = token.type === "string";
+        lines.push(current);
+        current = {
+          text: part,
+          removedComment: false,
+          startsInString: token.type === "string",
+          endsInString: false,
+        };
+      }
+    }
+    lines.push(current);
+
+    return lines
+      .filter(
+        (line) =>
+          !line.removedComment || line.startsInString || line.text.trim() !== ""
+      )
+      .map((line) =>
+        line.removedComment && !line.endsInString
+          ? { ...line, text: line.text.trimEnd() }
+          : line
+      );
+  }
+
+  /**
+   * Keep at most one blank line in a row and none at the start or end
+   */
+  private static collapseBlankLines(lines: Line[]): Line[] {
+    const isBlank = (line: Line) =>
+      !line.startsInString && line.text.trim() === "";
+
+    const result: Line[] = [];
+    for (const line of lines) {
+      if (
+        isBlank(line) &&
+        (result.length === 0 || isBlank(result[result.length - 1]))
+      ) {
+        continue;
+      }
+      result.push(isBlank(line) ? { ...line, text: "" } : line);
+    }
+    while (result.length > 0 && isBlank(result[result.length - 1])) {
+      result.pop();
+    }
+    return result;
+  }
+
+  /**
+   * Expand tabs, rescale indentation to COMPRESSION.INDENT_WIDTH per level
+   * and trim trailing whitespace. The indentation unit is the smallest
+   * indent in the file; alignment beyond whole levels is kept.
+   */
+  private static normalizeIndentation(lines: Line[]): Line[] {
+    const measured = lines.map((line) => {
+      if (line.startsInString) {
+        return { line, width: 0, rest: line.text };
+      }
+      const indent = /^[ \t]*/.exec(line.text)?.[0] ?? "";
+      let width = 0;
+      for (const character of indent) {
+        width =
+          character === "\t"
+            ? (Math.floor(width / COMPRESSION.TAB_WIDTH) + 1) *
+              COMPRESSION.TAB_WIDTH
+            : width + 1;
+      }
+      return { line, width, rest: line.text.slice(indent.length) };
+    });
+
+    // " * " continuation lines of block comments are one column off
+    const widths = measured
+      .filter(
+        ({ line, width, rest }) =>
+          !line.startsInString && width > 0 && rest && !rest.startsWith("*")
+      )
+      .map(({ width }) => width);
+    const unit = widths.length > 0 ? Math.min(...widths) : 0;
+    const scale = (width: number) =>
+      unit > COMPRESSION.INDENT_WIDTH
+        ? Math.floor(width / unit) * COMPRESSION.INDENT_WIDTH + (width % unit)
+        : width;
+
+    return measured.map(({ line, width, rest }) => {
+      if (line.startsInString) {
+        return line;
+      }
+      const text = line.endsInString ? rest : rest.trimEnd();
+      return { ...line, text: text ? " ".repeat(scale(width)) + text : "" };
+    });
+  }
+}
@@ -1,20 +1,136 @@
 import globToRegExp from "glob-to-regexp";
-import { ExclusionMatchResult } from "../models/types";
+import { RULE_PREFIXES } from "../constants";
+import {
+  ExclusionMatchResult,
+  FilterRule,
+  PatternMatchType,
+  RuleAction,
+  RuleExplanation,
+  RuleMatch,
+} from "../models/types";
+import { PathUtils } from "../utils/pathUtils";
 
 export class ExclusionMatcher {
-  private patterns: RegExp[];
-  private originalPatterns: string[];
+  private rules: FilterRule[];
 
-  constructor(patterns: string[]) {
-    this.originalPatterns = patterns;
-    this.patterns = patterns.map((pattern) =>
-      this.createRegexFromPattern(pattern)
+  constructor(rules: string[]) {
+    this.rules = rules
+      .map((rule) => ExclusionMatcher.parseRule(rule))
+      .filter((rule): rule is FilterRule => rule !== null);
+  }
+
+  /**
+   * Parse a rule string such as "+src", "-*.log" or "!node_modules".
+   * Entries without a prefix are treated as exclusions, and a trailing
+   * "/" as in "-build/" limits the rule to folders.
+   */
+  public static parseRule(rule: string): FilterRule | null {
+    const trimmed = rule.trim();
+    if (trimmed === "") {
+      return null;
+    }
+
+    let action: RuleAction = "exclude";
+    let pattern = trimmed;
+
+    if (trimmed.startsWith(RULE_PREFIXES.INCLUDE)) {
+      action = "include";
+      pattern = trimmed.slice(1);
+    } else if (trimmed.startsWith(RULE_PREFIXES.EXCLUDE)) {
+      action = "exclude";
+      pattern = trimmed.slice(1);
+    } else if (trimmed.startsWith(RULE_PREFIXES.COLLAPSE)) {
+      action = "collapse";
+      pattern = trimmed.slice(1);
+    }
+
+    pattern = pattern.trim();
+    if (pattern === "") {
+      return null;
+    }
+
+    // "folder:pattern" limits the rule to one workspace folder
+    let folder: string | undefined;
+    let directoryOnly = false;
+    if (!ExclusionMatcher.isRegexPattern(pattern)) {
+      const qualified = PathUtils.parseQualifiedPath(pattern);
+      folder = qualified.folder;
+      // Normalize path separators for cross-platform compatibility
+      pattern = qualified.path.replace(/\\/g, "/");
+
+      if (pattern.endsWith("/")) {
+        directoryOnly = true;
+        pattern = pattern.replace(/\/+$/, "");
+        if (pattern === "") {
+          console.warn(`Rule "${trimmed}" has no pattern, ignored`);
+          return null;
+        }
+      }
+    }
+
+    return {
+      rule: trimmed,
+      action,
+      folder,
+      pattern,
+      regex: ExclusionMatcher.createRegexFromPattern(pattern),
+      directoryOnly,
+    };
+  }
+
+  /**
+   * Build the rule string for an action and pattern
+   */
+  public static formatRule(action: RuleAction, pattern: string): string {
+    const prefix =
+      action === "include"
+        ? RULE_PREFIXES.INCLUDE
+        : action === "exclude"
+          ? RULE_PREFIXES.EXCLUDE
+          : RULE_PREFIXES.COLLAPSE;
+    return prefix + pattern;
+  }
+
+  /**
+   * Convert the legacy track / untrack / ignore-structure lists into an
+   * ordered rule list with the same behaviour
+   */
+  public static migrateLegacyRules(
+    track: string[],
+    untrack: string[],
+    ignoreStructure: string[]
+  ): string[] {
+    const rules = [
+      ...track.map((item) => ExclusionMatcher.formatRule("include", item)),
+      ...untrack.map((item) => ExclusionMatcher.formatRule("exclude", item)),
+      ...ignoreStructure
+        .filter((item) => !untrack.includes(item))
+        .map((item) => ExclusionMatcher.formatRule("collapse", item)),
+    ];
+
+    return [...new Set(rules)];
+  }
+
+  /**
+   * Explicit regex patterns start and end with /
+   */
+  public static isRegexPattern(pattern: string): boolean {
+    return (
+      pattern.length > 1 && pattern.startsWith("/") && pattern.endsWith("/")
     );
   }
 
-  private createRegexFromPattern(pattern: string): RegExp {
-    // If it's explicitly a regex pattern (starts and ends with /)
-    if (pattern.startsWith("/") && pattern.endsWith("/")) {
+  /**
+   * Whether a pattern can match more than one literal path
+   */
+  public static isGlobPattern(pattern: string): boolean {
+    return (
+      ExclusionMatcher.isRegexPattern(pattern) || /[*?[\]{}]/.test(pattern)
+    );
+  }
+
+  private static createRegexFromPattern(pattern: string): RegExp {
+    if (ExclusionMatcher.isRegexPattern(pattern)) {
       // Remove the slashes and create RegExp directly
       try {
         return new RegExp(pattern.slice(1, -1), "i"); // 'i' for case-insensitive
@@ -23,124 +139,215 @@ export class ExclusionMatcher {
           `Invalid regex pattern: ${pattern}, treating as literal string.`
         );
         // Fallback to escaping if it's an invalid regex
-        return new RegExp(this.escapeRegex(pattern), "i");
+        return new RegExp(ExclusionMatcher.escapeRegex(pattern), "i");
       }
-    } else {
-      // Normalize path separators for cross-platform compatibility
-      const normalizedPattern = pattern.replace(/\\/g, "/");
-
-      // Use glob-to-regexp for glob-like patterns
-      // The `globstar: true` option handles `**` for recursive matching.
-      // The `extended: true` option enables additional glob features
-      return globToRegExp(normalizedPattern, {
-        globstar: true,
-        extended: true,
-        flags: "i",
-      });
     }
+
+    // Use glob-to-regexp for glob-like patterns
+    // The `globstar: true` option handles `**` for recursive matching.
+    // The `extended: true` option enables additional glob features
+    return globToRegExp(pattern, {
+      globstar: true,
+      extended: true,
+      flags: "i",
+    });
   }
 
-  private escapeRegex(str: string): string {
+  private static escapeRegex(str: string): string {
     return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
   }
 
-  public shouldExclude(itemPath: string): ExclusionMatchResult {
-    // Normalize path separators for consistent matching
-    const normalizedPath = itemPath.replace(/\\/g, "/");
-
-    for (let i = 0; i < this.patterns.length; i++) {
-      const pattern = this.patterns[i];
-      const originalPattern = this.originalPatterns[i];
-
+  /**
+   * Check how a single rule matches a path: against the full path, the
+   * file/folder name, or as a literal folder prefix. Folder-only rules
+   * skip the first two when the path is known to be a file.
+   */
+  private matchRule(
+    rule: FilterRule,
+    normalizedPath: string,
+    isDirectory?: boolean
+  ): PatternMatchType | null {
+    if (!rule.directoryOnly || isDirectory !== false) {
       // Test against the full path
-      if (pattern.test(normalizedPath)) {
-        return {
-          shouldExclude: true,
-          matchedPattern: originalPattern,
-        };
+      if (rule.regex.test(normalizedPath)) {
+        return "full";
       }
 
       // Also test against just the filename/foldername
       const itemName = normalizedPath.split("/").pop() || "";
-      if (pattern.test(itemName)) {
-        return {
-          shouldExclude: true,
-          matchedPattern: originalPattern,
-        };
+      if (rule.regex.test(itemName)) {
+        return "basename";
       }
+    }
+
+    // Glob patterns like **/*.ts are already handled by the regex tests above
+    if (rule.pattern.includes("*")) {
+      return null;
+    }
 
-      // For directory patterns, check if the path starts with the pattern
-      const normalizedPattern = this.originalPatterns[i].replace(/\\/g, "/");
+    // Handle exact path matching for directories
+    if (normalizedPath.startsWith(rule.pattern + "/")) {
+      return "prefix";
+    }
 
-      // Handle glob patterns like **/*.ts by testing the full path
-      if (originalPattern.includes("*")) {
-        // Already handled by the regex test above
+    return null;
+  }
+
+  /**
+   * Every rule matching the path, in rule order. isDirectory is left out
+   * when it is not known, in which case folder-only rules still match.
+   */
+  public getMatches(itemPath: string, isDirectory?: boolean): RuleMatch[] {
+    const { folder, path: folderPath } = PathUtils.parseQualifiedPath(itemPath);
+    // Normalize path separators for consistent matching
+    const normalizedPath = folderPath.replace(/\\/g, "/");
+    const matches: RuleMatch[] = [];
+
+    for (const rule of this.rules) {
+      if (rule.folder && rule.folder !== folder) {
         continue;
       }
 
-      // Handle exact path matching for directories
-      if (
-        normalizedPath.startsWith(normalizedPattern + "/") ||
-        normalizedPath === normalizedPattern
-      ) {
-        return {
-          shouldExclude: true,
-          matchedPattern: originalPattern,
-        };
+      const matchType = this.matchRule(rule, normalizedPath, isDirectory);
+      if (matchType) {
+        matches.push({ rule: rule.rule, action: rule.action, matchType });
       }
     }
 
-    return {
-      shouldExclude: false,
-    };
+    return matches;
   }
 
-  public testPath(itemPath: string): { matches: string[]; excluded: boolean } {
-    const matches: string[] = [];
-    const normalizedPath = itemPath.replace(/\\/g, "/");
+  /**
+   * The path and each of its folders, outermost first, e.g. "src",
+   * "src/app", "src/app/main.ts"
+   */
+  public static getLevels(itemPath: string): string[] {
+    const { folder, path: folderPath } = PathUtils.parseQualifiedPath(
+      itemPath.replace(/\\/g, "/")
+    );
+    const segments = folderPath.split("/").filter(Boolean);
+    return segments.map((_, index) =>
+      PathUtils.toQualifiedPath(folder, segments.slice(0, index + 1).join("/"))
+    );
+  }
 
-    for (let i = 0; i < this.patterns.length; i++) {
-      const pattern = this.patterns[i];
-      const originalPattern = this.originalPatterns[i];
+  /**
+   * The rule deciding a path and the level it matched. Levels are checked
+   * from the outermost folder in, and the last rule matching a level
+   * itself overrides the levels above it. An include therefore marks a
+   * root rather than overriding the excludes inside it. Below an excluded
+   * folder only an include naming the exact path re-adds it, the way
+   * folders are walked.
+   */
+  public getDecisiveMatch(
+    itemPath: string,
+    includeCollapse: boolean = false,
+    isDirectory?: boolean
+  ): RuleExplanation | undefined {
+    const levels = ExclusionMatcher.getLevels(itemPath);
+    let decisive: RuleExplanation | undefined;
 
-      // Test against the full path
-      if (pattern.test(normalizedPath)) {
-        matches.push(originalPattern);
-        continue;
-      }
+    levels.forEach((level, index) => {
+      const { folder, path: folderPath } = PathUtils.parseQualifiedPath(level);
+      // Every level above the path itself is a folder
+      const isFolder = index < levels.length - 1 || isDirectory;
+      const isBelowExcluded =
+        decisive !== undefined && decisive.action !== "include";
 
-      // Also test against just the filename/foldername
-      const itemName = normalizedPath.split("/").pop() || "";
-      if (pattern.test(itemName)) {
-        matches.push(originalPattern);
-        continue;
-      }
+      for (const rule of this.rules) {
+        if (
+          (rule.folder && rule.folder !== folder) ||
+          (!includeCollapse && rule.action === "collapse")
+        ) {
+          continue;
+        }
 
-      // For non-glob patterns, check substring matching
-      if (!originalPattern.includes("*")) {
-        const normalizedPattern = this.originalPatterns[i].replace(/\\/g, "/");
+        const matchType = this.matchRule(rule, folderPath, isFolder);
         if (
-          normalizedPath.startsWith(normalizedPattern + "/") ||
-          normalizedPath === normalizedPattern
+          !matchType ||
+          matchType === "prefix" ||
+          (isBelowExcluded &&
+            rule.action === "include" &&
+            (matchType !== "full" ||
+              ExclusionMatcher.isGlobPattern(rule.pattern)))
         ) {
-          matches.push(originalPattern);
+          continue;
         }
+
+        decisive = {
+          rule: rule.rule,
+          action: rule.action,
+          matchType,
+          matchedPath: level,
+          isAncestor: index < levels.length - 1,
+        };
       }
+    });
+
+    return decisive;
+  }
+
+  /**
+   * Whether the path is excluded from the output, decided by the deepest
+   * level an include/exclude rule matches; collapse rules only affect the
+   * structure.
+   */
+  public shouldExclude(
+    itemPath: string,
+    isDirectory?: boolean
+  ): ExclusionMatchResult {
+    const decisive = this.getDecisiveMatch(itemPath, false, isDirectory);
+
+    if (decisive?.action === "exclude") {
+      return {
+        shouldExclude: true,
+        matchedPattern: decisive.rule,
+      };
     }
 
     return {
-      matches,
-      excluded: matches.length > 0,
+      shouldExclude: false,
+      matchedPattern: decisive?.rule,
+    };
+  }
+
+  /**
+   * Whether a folder is collapsed in the structure summary, decided the
+   * same way by rules of any kind
+   */
+  public shouldCollapse(itemPath: string): ExclusionMatchResult {
+    const decisive = this.getDecisiveMatch(itemPath, true);
+
+    return {
+      shouldExclude:
+        decisive?.action === "exclude" || decisive?.action === "collapse",
+      matchedPattern: decisive?.rule,
+    };
+  }
+
+  public testPath(
+    itemPath: string,
+    isDirectory?: boolean
+  ): { matches: string[]; excluded: boolean } {
+    return {
+      matches: this.getMatches(itemPath, isDirectory).map(
+        (match) => match.rule
+      ),
+      excluded: this.shouldExclude(itemPath, isDirectory).shouldExclude,
     };
   }
 
-  public static createForUntracking(patterns: string[]): ExclusionMatcher {
-    return new ExclusionMatcher(patterns);
+  /**
+   * Patterns of include rules, which are the roots of the tracked set.
+   * Folder limited patterns keep their "folder:" prefix.
+   */
+  public getIncludePatterns(): string[] {
+    return this.rules
+      .filter((rule) => rule.action === "include")
+      .map((rule) => PathUtils.toQualifiedPath(rule.folder, rule.pattern));
   }
 
-  public static createForStructureIgnoring(
-    patterns: string[]
-  ): ExclusionMatcher {
-    return new ExclusionMatcher(patterns);
+  public getRules(): FilterRule[] {
+    return [...this.rules];
   }
 }
@@ -1,26 +1,92 @@
 import * as crypto from "crypto";
 import * as fs from "fs";
 import * as path from "path";
+import { DIFF, OUTPUT_FILES } from "../constants";
 import {
+  BinaryFileInfo,
+  CancellationSignal,
+  CombinedContentOptions,
+  CombinedContentResult,
+  CompressionStats,
+  CopyLayout,
+  CopyManifest,
+  DetailLevel,
+  FileDiff,
+  FileTokenCount,
   FileTrackingOptions,
+  GitChangeSummary,
+  ManifestEntry,
+  PatternMatchSummary,
+  PreviewDecision,
+  PreviewEntry,
+  PreviewOptions,
   ProgressReporter,
+  RedactionFinding,
+  RedactionMode,
+  RedactionOptions,
+  RedactionReport,
+  SkippedFile,
+  TokenizerMethod,
+  TokenUsage,
   TrackingItem,
+  WorkspaceRoot,
 } from "../models/types";
 import { PathUtils } from "../utils/pathUtils";
+import { BinaryDetector } from "./binaryDetector";
+import { ContentCache } from "./contentCache";
+import { ContentCompressor } from "./contentCompressor";
 import { ExclusionMatcher } from "./exclusionMatcher";
+import { GitChangeTracker } from "./gitChangeTracker";
+import { GitignoreMatcher } from "./gitignoreMatcher";
+import { OutlineGenerator } from "./outlineGenerator";
+import { OutputFormatter } from "./outputFormatter";
+import { SecretRedactor } from "./secretRedactor";
+import { StructureRenderer } from "./structureRenderer";
+import { TokenCounter } from "./tokenCounter";
 
 export class FileTracker {
-  private untrackMatcher: ExclusionMatcher;
+  private ruleMatcher: ExclusionMatcher;
+  private gitignoreMatcher: GitignoreMatcher | null;
+  private gitChangeSources: string[];
+  private gitChangeTracker: GitChangeTracker = new GitChangeTracker();
+  private outlineGenerator: OutlineGenerator = new OutlineGenerator();
+  private levelMatcher: ExclusionMatcher = new ExclusionMatcher([]);
   private progress: ProgressReporter | null = null;
+  private progressShare: number = 100;
+  private cancellation: CancellationSignal | null = null;
   private copiedFiles: number = 0;
   private skippedFiles: number = 0;
-
-  constructor(untrackPatterns: string[]) {
-    this.untrackMatcher = ExclusionMatcher.createForUntracking(untrackPatterns);
+  private patternMatches: PatternMatchSummary[] = [];
+  private gitChanges: GitChangeSummary[] = [];
+  private workspaceFiles: TrackingItem[] | null = null;
+  // Output path of each file in the previous copy, by workspace-relative path
+  private previousOutputs: Map<string, string> = new Map();
+
+  constructor(
+    rules: string[],
+    gitignoreMatcher: GitignoreMatcher | null = null,
+    gitChangeSources: string[] = []
+  ) {
+    this.ruleMatcher = new ExclusionMatcher(rules);
+    this.gitignoreMatcher = gitignoreMatcher;
+    this.gitChangeSources = gitChangeSources;
   }
 
-  public setProgress(progress: ProgressReporter): void {
+  /**
+   * share: percentage of the progress bar the files fill, spread evenly
+   * over them
+   */
+  public setProgress(progress: ProgressReporter, share: number = 100): void {
     this.progress = progress;
+    this.progressShare = share;
+  }
+
+  /**
+   * Once cancellation is requested no further files are listed, copied or
+   * combined, and the results cover what was done so far
+   */
+  public setCancellation(cancellation: CancellationSignal): void {
+    this.cancellation = cancellation;
   }
 
   public async trackAndCopyFiles(options: FileTrackingOptions): Promise<{
@@ -28,8 +94,22 @@ export class FileTracker {
     skippedFiles: number;
     totalFiles: number;
     trackedFiles: string[];
+    patternMatches: PatternMatchSummary[];
+    gitChanges: GitChangeSummary[];
+    outlinedFiles: string[];
+    redactions: RedactionFinding[];
+    cancelled: boolean;
+    processedFiles: number;
   }> {
-    const { workspacePath, targetPath, trackPatterns } = options;
+    const {
+      workspaceRoots,
+      targetPath,
+      copyLayout = "flat",
+      outline = [],
+      redaction,
+    } = options;
+    const redactor = FileTracker.createRedactor(redaction);
+    this.levelMatcher = OutlineGenerator.createLevelMatcher(outline);
 
     // Reset counters
     this.copiedFiles = 0;
@@ -37,40 +117,91 @@ export class FileTracker {
 
     // Ensure target directory exists
     PathUtils.ensureDirectoryExists(targetPath);
+    this.previousOutputs = await this.readPreviousOutputs(targetPath);
 
     this.progress?.report({ message: "Analyzing tracked files..." });
 
     // Get all tracked items
-    const trackedItems = await this.getTrackedItems(
-      workspacePath,
-      trackPatterns
-    );
+    const trackedItems = await this.getTrackedItems(workspaceRoots);
 
     // Expand directories to get all files
     const allFiles = await this.expandTrackedItems(trackedItems);
+    // A cancel during the listing may have left files out of it
+    const listingCancelled = this.isCancelled();
 
     this.progress?.report({
       message: `Found ${allFiles.length} files to copy...`,
     });
 
+    // Every file is checked before the first one is copied
+    if (redactor?.getMode() === "block") {
+      for (const file of allFiles) {
+        if (this.isCancelled()) {
+          break;
+        }
+        const findings =
+          (await this.getCopyContent(file, redactor))?.findings ?? [];
+        if (findings.length > 0) {
+          throw SecretRedactor.createBlockedError(findings[0]);
+        }
+      }
+    }
+
     // Copy files
     const trackedFiles: string[] = [];
-    for (let i = 0; i < allFiles.length; i++) {
+    const manifestEntries: ManifestEntry[] = [];
+    const outlinedFiles: string[] = [];
+    let processedFiles = 0;
+    for (let i = 0; i < allFiles.length && !this.isCancelled(); i++) {
       const file = allFiles[i];
-      const success = await this.copyFile(file, targetPath);
+      if (redactor && (await this.isBinaryFile(file))) {
+        // Binary files cannot be scanned for secrets, so they are not
+        // copied while redaction is on
+        this.skippedFiles++;
+      } else {
+        const copyContent = await this.getCopyContent(file, redactor);
+        const outputFilePath = await this.copyFile(
+          file,
+          targetPath,
+          copyLayout,
+          copyContent?.text
+        );
 
-      if (success) {
-        trackedFiles.push(file.relativePath);
+        if (outputFilePath) {
+          trackedFiles.push(file.relativePath);
+          if (copyContent?.isOutline) {
+            outlinedFiles.push(file.relativePath);
+          }
+          manifestEntries.push({
+            ...(await this.createManifestEntry(
+              file,
+              targetPath,
+              outputFilePath,
+              copyContent?.text
+            )),
+            ...(copyContent?.isOutline ? { outline: true } : {}),
+            ...(copyContent?.findings.length
+              ? { redactions: copyContent.findings.length }
+              : {}),
+          });
+        }
       }
 
-      // Update progress
-      const progressPercent = ((i + 1) / allFiles.length) * 100;
+      processedFiles++;
       this.progress?.report({
         message: `Copied: ${path.basename(file.path)}`,
-        increment: progressPercent / allFiles.length,
+        increment: this.progressShare / allFiles.length,
       });
     }
 
+    // The manifest lists exactly what was copied, also after a cancel
+    await this.writeManifest(targetPath, copyLayout, manifestEntries);
+    await this.writeRedactionReport(
+      targetPath,
+      redaction?.mode ?? "off",
+      redactor?.getFindings() ?? []
+    );
+
     this.progress?.report({ message: "File copying complete!" });
 
     return {
@@ -78,136 +209,420 @@ export class FileTracker {
       skippedFiles: this.skippedFiles,
       totalFiles: allFiles.length,
       trackedFiles,
+      patternMatches: this.patternMatches,
+      gitChanges: this.gitChanges,
+      outlinedFiles,
+      redactions: redactor?.getFindings() ?? [],
+      cancelled: listingCancelled || processedFiles < allFiles.length,
+      processedFiles,
     };
   }
 
   public async trackAndWriteToSingleFile(
     options: FileTrackingOptions
-  ): Promise<{
-    totalFiles: number;
-    trackedFiles: string[];
-    outputPath: string;
-  }> {
-    const { workspacePath, targetPath, trackPatterns } = options;
+  ): Promise<CombinedContentResult & { outputPath: string }> {
+    const { targetPath } = options;
+
+    // Ensure target directory exists
+    PathUtils.createEmptyFile(targetPath);
+
+    let result: CombinedContentResult;
+    try {
+      result = await this.writeCombinedContent(options, (text) =>
+        fs.promises.appendFile(targetPath, text, "utf8")
+      );
+    } catch (error) {
+      // A blocked secret may already be in the partial output
+      await fs.promises.rm(targetPath, { force: true });
+      throw error;
+    }
+
+    // A partial combined file is removed rather than left looking complete
+    if (result.cancelled) {
+      await fs.promises.rm(targetPath, { force: true });
+    }
+
+    await this.writeRedactionReport(
+      path.dirname(targetPath),
+      options.redaction?.mode ?? "off",
+      result.cancelled ? [] : result.redactions
+    );
+
+    return { ...result, outputPath: targetPath };
+  }
+
+  /**
+   * Build the combined content in memory instead of writing it to a file
+   */
+  public async trackAndBuildContent(
+    options: CombinedContentOptions
+  ): Promise<CombinedContentResult & { content: string }> {
+    const chunks: string[] = [];
+    const result = await this.writeCombinedContent(options, async (text) => {
+      chunks.push(text);
+    });
+
+    return { ...result, content: chunks.join("") };
+  }
+
+  private async writeCombinedContent(
+    options: CombinedContentOptions,
+    write: (text: string) => Promise<void>
+  ): Promise<CombinedContentResult> {
+    const {
+      workspaceRoots,
+      tokenizer,
+      maxTokens = 0,
+      tokenBudgetMode = "stop",
+      outputFormat,
+      structureText,
+      structureFormat,
+      diffMode = "off",
+      diffBase = DIFF.DEFAULT_BASE,
+      diffContextLines = DIFF.DEFAULT_CONTEXT_LINES,
+      outline = [],
+      compression,
+      redaction,
+    } = options;
+    const formatter = new OutputFormatter(outputFormat);
+    this.levelMatcher = OutlineGenerator.createLevelMatcher(outline);
+    const compressor =
+      compression && compression.passes.length > 0
+        ? new ContentCompressor(compression)
+        : null;
+    const redactor = FileTracker.createRedactor(redaction);
 
     // Reset counters
     this.copiedFiles = 0;
     this.skippedFiles = 0;
 
-    // Ensure target directory exists
-    PathUtils.createEmptyFile(targetPath);
+    const preamble = formatter.formatPreamble(
+      structureText,
+      new StructureRenderer(structureFormat).getLanguage()
+    );
+    if (preamble) {
+      await write(preamble);
+    }
 
     this.progress?.report({ message: "Analyzing tracked files..." });
 
     // Get all tracked items
-    const trackedItems = await this.getTrackedItems(
-      workspacePath,
-      trackPatterns
-    );
+    const trackedItems = await this.getTrackedItems(workspaceRoots);
 
     // Expand directories to get all files
     const allFiles = await this.expandTrackedItems(trackedItems);
+    // A cancel during the listing may have left files out of it
+    const listingCancelled = this.isCancelled();
 
     this.progress?.report({
       message: `Found ${allFiles.length} files to copy...`,
     });
 
+    const tokenCounter = new TokenCounter(tokenizer);
+    const tokenUsage: TokenUsage = {
+      method: tokenCounter.getMethod(),
+      files: [],
+      totalTokens: 0,
+      maxTokens,
+      budgetExceeded: false,
+      omittedFiles: [],
+    };
+    const trackedFiles: string[] = [];
+    const skippedFileDetails: SkippedFile[] = [];
+    const outlinedFiles: string[] = [];
+    const compressionStats: CompressionStats | null = compressor
+      ? {
+          originalBytes: 0,
+          compressedBytes: 0,
+          originalTokens: 0,
+          compressedTokens: 0,
+        }
+      : null;
+
     // Write to combined content
-    for (let i = 0; i < allFiles.length; i++) {
+    let processedFiles = 0;
+    for (let i = 0; i < allFiles.length && !this.isCancelled(); i++) {
       const file = allFiles[i];
+      processedFiles++;
+      this.progress?.report({
+        message: `Processing: ${path.basename(file.path)}`,
+        increment: this.progressShare / allFiles.length,
+      });
 
-      try {
-        await this.appendFileToOutput(file, targetPath);
+      // Once the budget is blown in stop mode, the remaining files are omitted
+      if (tokenUsage.budgetExceeded && tokenBudgetMode === "stop") {
+        tokenUsage.omittedFiles.push(file.relativePath);
+        continue;
+      }
 
-        // Update progress
-        const progressPercent = ((i + 1) / allFiles.length) * 100;
-        this.progress?.report({
-          message: `Processing: ${path.basename(file.path)}`,
-          increment: progressPercent / allFiles.length,
+      // Diffs need git, so they are only looked up when asked for
+      const { diff, reason } =
+        diffMode === "off"
+          ? {}
+          : await this.getFileDiff(file, diffBase, diffContextLines, redactor);
+      if (diffMode === "only" && !diff) {
+        skippedFileDetails.push({
+          relativePath: file.relativePath,
+          reason: reason ?? "no diff",
         });
-      } catch (error) {
-        console.error(`Error processing file ${file.path}:`, error);
-
-        // Append error message instead of file content
-        const errorHeader =
-          "-".repeat(60) +
-          "\n" +
-          `File: ${file.relativePath}\n` +
-          "-".repeat(60) +
-          "\n" +
-          `Error reading file: ${error}\n`;
-
-        if (i < allFiles.length - 1) {
-          await fs.promises.appendFile(
-            targetPath,
-            errorHeader + "\n\n",
-            "utf8"
-          );
-        } else {
-          await fs.promises.appendFile(targetPath, errorHeader, "utf8");
+        continue;
+      }
+
+      const index = tokenUsage.files.length + 1;
+      const { entry, binaryInfo, isOutline, compressed } =
+        diffMode === "only" && diff
+          ? {
+              entry: formatter.formatDiff(file.relativePath, diff, index),
+              binaryInfo: null,
+              isOutline: false,
+              compressed: null,
+            }
+          : await this.createFileEntry(
+              file,
+              formatter,
+              index,
+              diff,
+              this.getDetailLevel(file),
+              compressor,
+              redactor
+            );
+
+      const blocked =
+        redactor?.getMode() === "block" ? redactor.getFindings()[0] : undefined;
+      if (blocked) {
+        throw SecretRedactor.createBlockedError(blocked);
+      }
+      const tokens = this.countTokens(tokenCounter, entry);
+
+      if (maxTokens > 0 && tokenUsage.totalTokens + tokens > maxTokens) {
+        tokenUsage.budgetExceeded = true;
+
+        if (tokenBudgetMode === "stop") {
+          tokenUsage.omittedFiles.push(file.relativePath);
+          continue;
         }
       }
+
+      // Add spacing after file content
+      await write(entry + "\n\n");
+
+      // Binary files only get a placeholder, so they count as skipped
+      if (binaryInfo) {
+        skippedFileDetails.push({
+          relativePath: file.relativePath,
+          reason: `binary file (${binaryInfo.type})`,
+        });
+      } else {
+        trackedFiles.push(file.relativePath);
+      }
+      if (isOutline) {
+        outlinedFiles.push(file.relativePath);
+      }
+      if (compressionStats && compressed) {
+        compressionStats.originalBytes += Buffer.byteLength(compressed.before);
+        compressionStats.compressedBytes += Buffer.byteLength(compressed.after);
+        compressionStats.originalTokens += this.countTokens(
+          tokenCounter,
+          compressed.before
+        );
+        compressionStats.compressedTokens += this.countTokens(
+          tokenCounter,
+          compressed.after
+        );
+      }
+      tokenUsage.files.push({ relativePath: file.relativePath, tokens });
+      tokenUsage.totalTokens += tokens;
+    }
+    // Files too large for the BPE are estimated
+    tokenUsage.method = tokenCounter.getUsedMethod();
+
+    const epilogue = formatter.formatEpilogue();
+    if (epilogue) {
+      await write(epilogue);
     }
 
     this.progress?.report({ message: "Combined file creation complete!" });
 
     return {
       totalFiles: allFiles.length,
-      trackedFiles: allFiles.map((file) => file.relativePath),
-      outputPath: targetPath,
+      trackedFiles,
+      tokenUsage,
+      patternMatches: this.patternMatches,
+      gitChanges: this.gitChanges,
+      skippedFileDetails,
+      outlinedFiles,
+      compression: compressionStats,
+      redactions: redactor?.getFindings() ?? [],
+      // A cancel after the last file leaves a complete result
+      cancelled: listingCancelled || processedFiles < allFiles.length,
+      processedFiles,
     };
   }
 
-  private async getTrackedItems(
-    workspacePath: string,
-    trackPatterns: string[]
-  ): Promise<TrackingItem[]> {
-    const trackedItems: TrackingItem[] = [];
-
-    for (const pattern of trackPatterns) {
-      const absolutePath = PathUtils.isAbsolute(pattern)
-        ? pattern
-        : PathUtils.resolvePath(workspacePath, pattern);
+  private isCancelled(): boolean {
+    return this.cancellation?.isCancellationRequested ?? false;
+  }
 
-      if (PathUtils.exists(absolutePath)) {
-        const stats = await PathUtils.getFileStats(absolutePath);
-        if (stats) {
-          const relativePath =
-            PathUtils.getRelativePathFromWorkspace(absolutePath);
+  /**
+   * Level of detail a tracked file is written with, from the outline
+   * patterns of the current run
+   */
+  public getDetailLevel(item: TrackingItem): DetailLevel {
+    return OutlineGenerator.getDetailLevel(
+      this.levelMatcher,
+      item.relativePath
+    );
+  }
 
-          trackedItems.push({
-            path: absolutePath,
-            relativePath,
-            isFile: stats.isFile(),
-            isTracked: true,
-          });
-        }
+  public async getTrackedItems(
+    workspaceRoots: WorkspaceRoot[]
+  ): Promise<TrackingItem[]> {
+    const trackedItems: TrackingItem[] = [];
+    this.patternMatches = [];
+    this.gitChanges = [];
+    this.workspaceFiles = null;
+
+    // Include rules are the roots of the tracked set
+    for (const pattern of this.ruleMatcher.getIncludePatterns()) {
+      const literalItems = ExclusionMatcher.isRegexPattern(pattern)
+        ? []
+        : await this.resolveLiteralPattern(workspaceRoots, pattern);
+
+      if (literalItems.length > 0) {
+        trackedItems.push(...literalItems);
+      } else if (ExclusionMatcher.isGlobPattern(pattern)) {
+        const matchedFiles = await this.expandPattern(workspaceRoots, pattern);
+        trackedItems.push(...matchedFiles);
+        this.patternMatches.push({
+          pattern,
+          matchCount: matchedFiles.length,
+        });
       } else {
         console.warn(`Tracked item not found: ${pattern}`);
       }
     }
 
+    // Files reported by git are tracked after the static rules
+    for (const source of this.gitChangeSources) {
+      trackedItems.push(
+        ...(await this.resolveGitChangeSource(workspaceRoots, source))
+      );
+    }
+
     return trackedItems;
   }
 
-  private async expandTrackedItems(
+  /**
+   * Files of one git change source, recording the match count or the git
+   * error instead of failing the whole run
+   */
+  public async resolveGitChangeSource(
+    workspaceRoots: WorkspaceRoot[],
+    source: string
+  ): Promise<TrackingItem[]> {
+    try {
+      const files = await this.gitChangeTracker.getChangedFiles(
+        workspaceRoots,
+        source
+      );
+      this.gitChanges.push({ source, matchCount: files.length });
+      return files;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`Git changes "${source}" unavailable: ${message}`);
+      this.gitChanges.push({ source, matchCount: 0, error: message });
+      return [];
+    }
+  }
+
+  /**
+   * Resolve a literal include pattern in its workspace folder, or in every
+   * folder where it exists when it has no "folder:" prefix
+   */
+  public async resolveLiteralPattern(
+    workspaceRoots: WorkspaceRoot[],
+    pattern: string
+  ): Promise<TrackingItem[]> {
+    const { folder, path: folderPattern } =
+      PathUtils.parseQualifiedPath(pattern);
+    const absolutePaths = PathUtils.isAbsolute(folderPattern)
+      ? [folderPattern]
+      : workspaceRoots
+          .filter((root) => !folder || root.name === folder)
+          .map((root) => PathUtils.resolvePath(root.path, folderPattern));
+
+    const items: TrackingItem[] = [];
+    for (const absolutePath of absolutePaths) {
+      const stats = await PathUtils.getFileStats(absolutePath);
+      if (stats) {
+        items.push({
+          path: absolutePath,
+          relativePath: PathUtils.getRelativePathFromWorkspace(absolutePath),
+          isFile: stats.isFile(),
+          isTracked: true,
+        });
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Find workspace files matching a glob or /regex/ include pattern.
+   * Excluded and gitignored folders are not searched.
+   */
+  public async expandPattern(
+    workspaceRoots: WorkspaceRoot[],
+    pattern: string
+  ): Promise<TrackingItem[]> {
+    if (!this.workspaceFiles) {
+      this.workspaceFiles = [];
+      for (const root of workspaceRoots) {
+        this.workspaceFiles.push(...(await this.expandDirectory(root.path)));
+      }
+    }
+
+    const patternMatcher = new ExclusionMatcher([
+      ExclusionMatcher.formatRule("include", pattern),
+    ]);
+
+    return this.workspaceFiles.filter(
+      (file) => patternMatcher.getMatches(file.relativePath).length > 0
+    );
+  }
+
+  public async expandTrackedItems(
     trackedItems: TrackingItem[]
   ): Promise<TrackingItem[]> {
     const allFiles: TrackingItem[] = [];
+    const seenPaths = new Set<string>();
 
     for (const item of trackedItems) {
-      if (item.isFile) {
-        // Check if file should be untracked
-        const exclusionResult = this.untrackMatcher.shouldExclude(
-          item.relativePath
-        );
-        if (!exclusionResult.shouldExclude) {
-          allFiles.push(item);
+      if (this.isCancelled()) {
+        break;
+      }
+
+      // A later exclude rule can still drop a tracked item
+      const exclusionResult = this.ruleMatcher.shouldExclude(
+        item.relativePath,
+        !item.isFile
+      );
+      if (
+        exclusionResult.shouldExclude ||
+        (await this.isGitignored(item.path, !item.isFile))
+      ) {
+        continue;
+      }
+
+      // Overlapping include rules must not produce duplicates
+      const files = item.isFile
+        ? [item]
+        : await this.expandDirectory(item.path);
+      for (const file of files) {
+        if (!seenPaths.has(file.path)) {
+          seenPaths.add(file.path);
+          allFiles.push(file);
         }
-      } else {
-        // It's a directory, expand it
-        const files = await this.expandDirectory(item.path);
-        allFiles.push(...files);
       }
     }
 
@@ -220,31 +635,39 @@ export class FileTracker {
     const files: TrackingItem[] = [];
 
     try {
-      const items = await fs.promises.readdir(directoryPath);
+      // Unchanged directories are listed from the cache
+      const items =
+        await ContentCache.getInstance().readDirectory(directoryPath);
 
       for (const item of items) {
-        const itemPath = path.join(directoryPath, item);
+        if (this.isCancelled()) {
+          break;
+        }
+
+        const itemPath = path.join(directoryPath, item.name);
         const relativePath = PathUtils.getRelativePathFromWorkspace(itemPath);
 
         // Check if this item should be untracked
-        const exclusionResult = this.untrackMatcher.shouldExclude(relativePath);
+        const exclusionResult = this.ruleMatcher.shouldExclude(
+          relativePath,
+          item.isDirectory
+        );
         if (exclusionResult.shouldExclude) {
           continue; // Skip this item
         }
 
-        const stats = await PathUtils.getFileStats(itemPath);
-        if (!stats) {
+        if (await this.isGitignored(itemPath, item.isDirectory)) {
           continue;
         }
 
-        if (stats.isFile()) {
+        if (item.isFile) {
           files.push({
             path: itemPath,
             relativePath,
             isFile: true,
             isTracked: true,
           });
-        } else if (stats.isDirectory()) {
+        } else if (item.isDirectory) {
           // Recursively expand subdirectories
           const subFiles = await this.expandDirectory(itemPath);
           files.push(...subFiles);
@@ -257,11 +680,62 @@ export class FileTracker {
     return files;
   }
 
+  private countTokens(tokenCounter: TokenCounter, text: string): number {
+    return tokenCounter.recordMethod(
+      ContentCache.getInstance().getTokenCount(
+        text,
+        tokenCounter.getMethod(),
+        (uncachedText) => tokenCounter.countWithMethod(uncachedText)
+      )
+    ).tokens;
+  }
+
+  private async isGitignored(
+    itemPath: string,
+    isDirectory: boolean
+  ): Promise<boolean> {
+    if (!this.gitignoreMatcher) {
+      return false;
+    }
+    return this.gitignoreMatcher.isIgnored(itemPath, isDirectory);
+  }
+
+  /**
+   * Copy a tracked file into the target folder, or write its redacted
+   * content instead when given.
+   * Returns the path it ended up at, or null when the copy failed.
+   */
   private async copyFile(
     file: TrackingItem,
-    targetPath: string
-  ): Promise<boolean> {
+    targetPath: string,
+    copyLayout: CopyLayout = "flat",
+    copyContent?: string
+  ): Promise<string | null> {
     try {
+      if (copyLayout === "mirror") {
+        const mirroredPath = await this.copyFileMirrored(
+          file,
+          targetPath,
+          copyContent
+        );
+        if (mirroredPath) {
+          return mirroredPath;
+        }
+      }
+
+      // A file copied before keeps its output, so reruns overwrite it
+      // instead of adding numbered duplicates
+      const previousPath = this.previousOutputs.get(file.relativePath);
+      if (previousPath && PathUtils.exists(previousPath)) {
+        if (await this.isCopyUnchanged(file, previousPath, copyContent)) {
+          this.skippedFiles++;
+        } else {
+          await this.writeCopy(file, previousPath, copyContent);
+          this.copiedFiles++;
+        }
+        return previousPath;
+      }
+
       const fileName = path.basename(file.path);
       let targetFilePath = path.join(targetPath, fileName);
 
@@ -272,9 +746,10 @@ export class FileTracker {
         // Make sure it's actually a file (not a directory)
         if (stats && stats.isFile()) {
           // Check if content is the same
-          const isSameContent = await this.compareFileContents(
-            file.path,
-            targetFilePath
+          const isSameContent = await this.isCopyUnchanged(
+            file,
+            targetFilePath,
+            copyContent
           );
 
           if (isSameContent) {
@@ -284,7 +759,7 @@ export class FileTracker {
               `File ${fileName} already exists with same content, skipping copy`
             );
             this.skippedFiles++;
-            return true; // Consider this a success since file already exists correctly
+            return targetFilePath; // Consider this a success since file already exists correctly
           }
 
           // Content is different, get unique filename
@@ -296,97 +771,560 @@ export class FileTracker {
         }
       }
 
-      await fs.promises.copyFile(file.path, targetFilePath);
+      await this.writeCopy(file, targetFilePath, copyContent);
       this.copiedFiles++;
-      return true;
+      return targetFilePath;
     } catch (error) {
       console.error(`Error copying file ${file.path}:`, error);
       this.skippedFiles++;
+      return null;
+    }
+  }
+
+  /**
+   * Copy a file to its workspace-relative path under the target folder.
+   * In multi-root workspaces the folder name becomes the top directory.
+   * Returns null for files outside the workspace, which are copied flat.
+   */
+  private async copyFileMirrored(
+    file: TrackingItem,
+    targetPath: string,
+    copyContent?: string
+  ): Promise<string | null> {
+    const { folder, path: folderRelativePath } = PathUtils.isMultiRoot()
+      ? PathUtils.parseQualifiedPath(file.relativePath)
+      : { folder: undefined, path: file.relativePath };
+    const targetFilePath = path.join(
+      targetPath,
+      folder ?? "",
+      folderRelativePath
+    );
+
+    if (!PathUtils.isSubdirectory(targetPath, targetFilePath)) {
+      return null;
+    }
+
+    // Unchanged files are left alone
+    if (
+      PathUtils.exists(targetFilePath) &&
+      (await this.isCopyUnchanged(file, targetFilePath, copyContent))
+    ) {
+      this.skippedFiles++;
+      return targetFilePath;
+    }
+
+    PathUtils.ensureDirectoryExists(path.dirname(targetFilePath));
+    await this.writeCopy(file, targetFilePath, copyContent);
+    this.copiedFiles++;
+    return targetFilePath;
+  }
+
+  private async isCopyUnchanged(
+    file: TrackingItem,
+    targetFilePath: string,
+    copyContent?: string
+  ): Promise<boolean> {
+    if (copyContent === undefined) {
+      return this.compareFileContents(file.path, targetFilePath);
+    }
+    try {
+      return (
+        (await fs.promises.readFile(targetFilePath, "utf8")) === copyContent
+      );
+    } catch {
       return false;
     }
   }
 
-  private async appendFileToOutput(
+  private async writeCopy(
     file: TrackingItem,
-    outputFilePath: string
+    targetFilePath: string,
+    copyContent?: string
   ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      // Create header for this file
-      const header =
-        "-".repeat(60) +
-        "\n" +
-        `File: ${file.relativePath}\n` +
-        "-".repeat(60) +
-        "\n";
-
-      // Create streams
-      const readStream = fs.createReadStream(file.path, { encoding: "utf8" });
-      const writeStream = fs.createWriteStream(outputFilePath, {
-        flags: "a", // append mode
-        encoding: "utf8",
-      });
+    if (copyContent === undefined) {
+      await fs.promises.copyFile(file.path, targetFilePath);
+    } else {
+      await fs.promises.writeFile(targetFilePath, copyContent, "utf8");
+    }
+  }
 
-      // Write header first
-      writeStream.write(header);
+  /**
+   * copyContent: the text written in place of the file, when it was
+   * outlined or redacted
+   */
+  private async createManifestEntry(
+    file: TrackingItem,
+    targetPath: string,
+    outputFilePath: string,
+    copyContent?: string
+  ): Promise<ManifestEntry> {
+    const size = await PathUtils.getFileSize(file.path);
+    const sha256 = await this.getFileHash(file.path);
+    return {
+      outputPath: path.relative(targetPath, outputFilePath).replace(/\\/g, "/"),
+      originalPath: file.relativePath,
+      size,
+      sha256,
+      outputSize:
+        copyContent === undefined ? size : Buffer.byteLength(copyContent),
+      outputSha256:
+        copyContent === undefined
+          ? sha256
+          : crypto.createHash("sha256").update(copyContent).digest("hex"),
+    };
+  }
 
-      // Handle stream events
-      readStream.on("error", (error) => {
-        writeStream.destroy();
-        reject(new Error(`Error reading ${file.path}: ${error.message}`));
-      });
+  /**
+   * Output path of each file listed in the manifest of an earlier copy,
+   * limited to files in the target folder
+   */
+  private async readPreviousOutputs(
+    targetPath: string
+  ): Promise<Map<string, string>> {
+    const outputs = new Map<string, string>();
+    try {
+      const manifest: CopyManifest = JSON.parse(
+        await fs.promises.readFile(
+          path.join(targetPath, OUTPUT_FILES.MANIFEST),
+          "utf8"
+        )
+      );
+      for (const entry of manifest.files ?? []) {
+        const outputPath = path.join(targetPath, entry.outputPath);
+        if (PathUtils.isSubdirectory(targetPath, outputPath)) {
+          outputs.set(entry.originalPath, outputPath);
+        }
+      }
+    } catch {
+      // No earlier copy, or a manifest we cannot read
+    }
+    return outputs;
+  }
 
-      writeStream.on("error", (error) => {
-        readStream.destroy();
-        reject(new Error(`Error writing to output: ${error.message}`));
-      });
+  /**
+   * Map every copied file back to where it came from
+   */
+  private async writeManifest(
+    targetPath: string,
+    layout: CopyLayout,
+    files: ManifestEntry[]
+  ): Promise<void> {
+    const manifest: CopyManifest = {
+      generatedAt: new Date().toISOString(),
+      layout,
+      files,
+    };
 
-      readStream.on("end", () => {
-        // Add spacing after file content (except for last file)
-        // Note: We can't easily know if this is the last file here,
-        // so we'll add spacing and trim at the end if needed
-        writeStream.write("\n\n");
-        writeStream.end();
-      });
+    await fs.promises.writeFile(
+      path.join(targetPath, OUTPUT_FILES.MANIFEST),
+      JSON.stringify(manifest, null, 2),
+      "utf8"
+    );
+  }
 
-      writeStream.on("finish", () => {
-        resolve();
-      });
+  /**
+   * Report where secrets were redacted, next to the outputs. A report left
+   * by an earlier run is removed when nothing was found.
+   */
+  private async writeRedactionReport(
+    targetFolder: string,
+    mode: RedactionMode,
+    findings: RedactionFinding[]
+  ): Promise<void> {
+    const reportPath = path.join(targetFolder, OUTPUT_FILES.REDACTION_REPORT);
+    if (findings.length === 0) {
+      await fs.promises.rm(reportPath, { force: true });
+      return;
+    }
 
-      // Pipe the file content
-      readStream.pipe(writeStream, { end: false });
-    });
+    const report: RedactionReport = {
+      generatedAt: new Date().toISOString(),
+      mode,
+      findings,
+    };
+    await fs.promises.writeFile(
+      reportPath,
+      JSON.stringify(report, null, 2),
+      "utf8"
+    );
+  }
+
+  private static createRedactor(
+    options: RedactionOptions | undefined
+  ): SecretRedactor | null {
+    return options && options.mode !== "off"
+      ? new SecretRedactor(options)
+      : null;
+  }
+
+  private async isBinaryFile(file: TrackingItem): Promise<boolean> {
+    try {
+      return (await BinaryDetector.detect(file.path)) !== null;
+    } catch {
+      // Unreadable files fail to copy as well
+      return false;
+    }
+  }
+
+  /**
+   * Text to write in place of a copied file: its outline and/or redacted
+   * content. Null when the file can be copied as is.
+   */
+  private async getCopyContent(
+    file: TrackingItem,
+    redactor: SecretRedactor | null
+  ): Promise<{
+    text: string;
+    findings: RedactionFinding[];
+    isOutline: boolean;
+  } | null> {
+    const detailLevel = this.getDetailLevel(file);
+    if (!redactor && detailLevel !== "outline") {
+      return null;
+    }
+
+    try {
+      if (await BinaryDetector.detect(file.path)) {
+        return null;
+      }
+
+      const content = await fs.promises.readFile(file.path, "utf8");
+      // Files without outline support are copied in full
+      const outline =
+        detailLevel === "outline"
+          ? await this.outlineGenerator.generate(file.path, content)
+          : null;
+      const redacted = redactor
+        ? redactor.redact(outline ?? content, file.relativePath)
+        : { text: outline ?? content, findings: [] };
+      return outline !== null || redacted.findings.length > 0
+        ? { ...redacted, isOutline: outline !== null }
+        : null;
+    } catch (error) {
+      // Unreadable files fail to copy as well
+      console.error(`Error reading file ${file.path}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Diff of a file for the combined output, or why it has none. Secrets
+   * are redacted from removed lines as well.
+   */
+  private async getFileDiff(
+    file: TrackingItem,
+    base: string,
+    contextLines: number,
+    redactor: SecretRedactor | null = null
+  ): Promise<{ diff?: FileDiff; reason?: string }> {
+    try {
+      const diff = await this.gitChangeTracker.getFileDiff(
+        file.path,
+        base,
+        contextLines
+      );
+      if (diff === null) {
+        return { reason: "not in a git repository" };
+      }
+      if (diff === "") {
+        return { reason: "unchanged" };
+      }
+      return {
+        diff: {
+          base: GitChangeTracker.describeDiffBase(base),
+          diff: redactor
+            ? redactor.redact(diff, `${file.relativePath} (diff)`).text
+            : diff,
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`Error diffing ${file.path}: ${message}`);
+      return { reason: `diff failed (${message})` };
+    }
+  }
+
+  private async createFileEntry(
+    file: TrackingItem,
+    formatter: OutputFormatter = new OutputFormatter(),
+    index: number = 1,
+    diff?: FileDiff,
+    detailLevel: DetailLevel = "full",
+    compressor: ContentCompressor | null = null,
+    redactor: SecretRedactor | null = null
+  ): Promise<{
+    entry: string;
+    binaryInfo: BinaryFileInfo | null;
+    isOutline: boolean;
+    // Text before and after compression, when it was applied
+    compressed: { before: string; after: string } | null;
+  }> {
+    try {
+      // Binary content is replaced by a one-line description
+      const binaryInfo = await BinaryDetector.detect(file.path);
+      if (binaryInfo) {
+        return {
+          entry: formatter.formatFile(
+            file.relativePath,
+            BinaryDetector.formatPlaceholder(binaryInfo),
+            index,
+            diff
+          ),
+          binaryInfo,
+          isOutline: false,
+          compressed: null,
+        };
+      }
+
+      const content = await fs.promises.readFile(file.path, "utf8");
+      // Files without outline support are written in full
+      const outline =
+        detailLevel === "outline"
+          ? await this.outlineGenerator.generate(file.path, content)
+          : null;
+      const text = outline ?? content;
+      const compressed = compressor
+        ? compressor.compress(text, OutputFormatter.getLanguage(file.path))
+        : text;
+      // Redacted last, so the report's line numbers match what is written
+      const redacted = redactor
+        ? redactor.redact(compressed, file.relativePath).text
+        : compressed;
+      return {
+        entry: formatter.formatFile(file.relativePath, redacted, index, diff),
+        binaryInfo: null,
+        isOutline: outline !== null,
+        compressed: compressor ? { before: text, after: compressed } : null,
+      };
+    } catch (error) {
+      console.error(`Error processing file ${file.path}:`, error);
+
+      // Include error message instead of file content
+      return {
+        entry: formatter.formatFile(
+          file.relativePath,
+          `Error reading file: ${error}\n`,
+          index
+        ),
+        binaryInfo: null,
+        isOutline: false,
+        compressed: null,
+      };
+    }
   }
 
   public async calculateTotalSize(
-    workspacePath: string,
-    trackPatterns: string[]
+    workspaceRoots: WorkspaceRoot[],
+    tokenizer?: TokenizerMethod
   ): Promise<{
     totalSize: number;
     formattedSize: string;
     fileCount: number;
+    totalTokens: number;
+    fileTokens: FileTokenCount[];
   }> {
-    const trackedItems = await this.getTrackedItems(
-      workspacePath,
-      trackPatterns
-    );
+    const trackedItems = await this.getTrackedItems(workspaceRoots);
     const allFiles = await this.expandTrackedItems(trackedItems);
 
+    const tokenCounter = new TokenCounter(tokenizer);
+    const fileTokens: FileTokenCount[] = [];
     let totalSize = 0;
     let fileCount = 0;
+    let totalTokens = 0;
 
     for (const file of allFiles) {
       const size = await PathUtils.getFileSize(file.path);
       totalSize += size;
       fileCount++;
+
+      const { entry } = await this.createFileEntry(file);
+      const tokens = this.countTokens(tokenCounter, entry);
+      fileTokens.push({ relativePath: file.relativePath, tokens });
+      totalTokens += tokens;
     }
 
     return {
       totalSize,
       formattedSize: PathUtils.formatFileSize(totalSize),
       fileCount,
+      totalTokens,
+      fileTokens,
     };
   }
 
+  /**
+   * Every candidate of a summary with the decision made for it, without
+   * writing anything. Included files come with their size and estimated
+   * tokens; the other files of the workspace are listed with the reason
+   * they are left out. Excluded and gitignored folders are listed once.
+   */
+  public async previewFiles(options: PreviewOptions): Promise<PreviewEntry[]> {
+    const {
+      workspaceRoots,
+      tokenizer,
+      outputFormat,
+      outline = [],
+      compression,
+    } = options;
+    const formatter = new OutputFormatter(outputFormat);
+    this.levelMatcher = OutlineGenerator.createLevelMatcher(outline);
+    const compressor =
+      compression && compression.passes.length > 0
+        ? new ContentCompressor(compression)
+        : null;
+    const tokenCounter = new TokenCounter(tokenizer);
+
+    this.progress?.report({ message: "Analyzing tracked files..." });
+    const trackedItems = await this.getTrackedItems(workspaceRoots);
+    const includedFiles = await this.expandTrackedItems(trackedItems);
+
+    const entries: PreviewEntry[] = [];
+    for (let i = 0; i < includedFiles.length && !this.isCancelled(); i++) {
+      const file = includedFiles[i];
+      this.progress?.report({
+        message: `Measuring: ${path.basename(file.path)}`,
+        increment: this.progressShare / includedFiles.length,
+      });
+
+      const detailLevel = this.getDetailLevel(file);
+      const { entry } = await this.createFileEntry(
+        file,
+        formatter,
+        i + 1,
+        undefined,
+        detailLevel,
+        compressor
+      );
+      entries.push({
+        relativePath: file.relativePath,
+        isFile: true,
+        decision: "included",
+        matchedPatterns: this.ruleMatcher.testPath(file.relativePath, false)
+          .matches,
+        size: await PathUtils.getFileSize(file.path),
+        tokens: this.countTokens(tokenCounter, entry),
+        detailLevel,
+      });
+    }
+
+    const includedPaths = new Set(includedFiles.map((file) => file.path));
+    for (const root of workspaceRoots) {
+      await this.collectLeftOutFiles(root.path, includedPaths, entries);
+    }
+
+    return entries.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  }
+
+  /**
+   * Add the files under directoryPath that are not included, with the
+   * reason they are left out
+   */
+  private async collectLeftOutFiles(
+    directoryPath: string,
+    includedPaths: Set<string>,
+    entries: PreviewEntry[]
+  ): Promise<void> {
+    try {
+      const items =
+        await ContentCache.getInstance().readDirectory(directoryPath);
+
+      for (const item of items) {
+        if (this.isCancelled()) {
+          break;
+        }
+
+        const itemPath = path.join(directoryPath, item.name);
+        if (
+          includedPaths.has(itemPath) ||
+          (!item.isFile && !item.isDirectory)
+        ) {
+          continue;
+        }
+
+        const relativePath = PathUtils.getRelativePathFromWorkspace(itemPath);
+        const { matches, excluded } = this.ruleMatcher.testPath(
+          relativePath,
+          item.isDirectory
+        );
+        let decision: PreviewDecision;
+        if (await this.isGitignored(itemPath, item.isDirectory)) {
+          decision = "gitignored";
+        } else if (excluded) {
+          decision = "excluded";
+        } else if (item.isDirectory) {
+          await this.collectLeftOutFiles(itemPath, includedPaths, entries);
+          continue;
+        } else {
+          decision = "not-tracked";
+        }
+
+        entries.push({
+          relativePath,
+          isFile: item.isFile,
+          decision,
+          matchedPatterns: matches,
+          size: item.isFile ? await PathUtils.getFileSize(itemPath) : undefined,
+        });
+      }
+    } catch (error) {
+      console.error(`Error listing directory ${directoryPath}:`, error);
+    }
+  }
+
+  /**
+   * Describe glob include results, e.g. 'pattern "docs/*.md" matched 3 files'
+   */
+  public static formatPatternMatches(
+    patternMatches: PatternMatchSummary[]
+  ): string {
+    return patternMatches
+      .map(
+        (match) =>
+          `pattern "${match.pattern}" matched ${match.matchCount} ` +
+          (match.matchCount === 1 ? "file" : "files")
+      )
+      .join(", ");
+  }
+
+  /**
+   * Describe git change results, e.g. "Staged changes: 3 files"
+   */
+  public static formatGitChanges(gitChanges: GitChangeSummary[]): string {
+    return gitChanges
+      .map((change) => {
+        const label = GitChangeTracker.describeSource(change.source);
+        if (change.error) {
+          return `${label}: unavailable (${change.error})`;
+        }
+        return (
+          `${label}: ${change.matchCount} ` +
+          (change.matchCount === 1 ? "file" : "files")
+        );
+      })
+      .join(", ");
+  }
+
+  /**
+   * Describe compression savings, e.g. "1.2 MB → 800 KB, 300k → 200k tokens (-33%)"
+   */
+  public static formatCompression(stats: CompressionStats): string {
+    const saved =
+      stats.originalTokens > 0
+        ? Math.round(
+            ((stats.originalTokens - stats.compressedTokens) /
+              stats.originalTokens) *
+              100
+          )
+        : 0;
+    return (
+      `${PathUtils.formatFileSize(stats.originalBytes)} → ` +
+      `${PathUtils.formatFileSize(stats.compressedBytes)}, ` +
+      `${TokenCounter.formatTokenCount(stats.originalTokens)} → ` +
+      `${TokenCounter.formatTokenCount(stats.compressedTokens)} tokens ` +
+      `(-${saved}%)`
+    );
+  }
+
   private async compareFileContents(
     filePath1: string,
     filePath2: string
@@ -419,7 +1357,21 @@ export class FileTracker {
     }
   }
 
+  /**
+   * sha256 of a file, reused from the cache while mtime and size match
+   */
   private async getFileHash(filePath: string): Promise<string> {
+    const stats = await PathUtils.getFileStats(filePath);
+    if (!stats) {
+      throw new Error(`File does not exist: ${filePath}`);
+    }
+
+    return ContentCache.getInstance().getFileHash(filePath, stats, () =>
+      this.computeFileHash(filePath)
+    );
+  }
+
+  private async computeFileHash(filePath: string): Promise<string> {
     return new Promise((resolve, reject) => {
       const hash = crypto.createHash("sha256");
       const stream = fs.createReadStream(filePath);
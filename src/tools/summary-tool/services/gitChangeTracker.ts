@@ -0,0 +1,341 @@
+import { execFile } from "child_process";
+import * as path from "path";
+import { promisify } from "util";
+import { DIFF, GIT_CHANGES } from "../constants";
+import {
+  GitChangeKind,
+  GitChangeSource,
+  TrackingItem,
+  WorkspaceRoot,
+} from "../models/types";
+import { PathUtils } from "../utils/pathUtils";
+
+const execFileAsync = promisify(execFile);
+
+const GIT_CHANGE_KINDS: GitChangeKind[] = [
+  "staged",
+  "unstaged",
+  "untracked",
+  "since",
+  "merge-base",
+];
+
+/**
+ * Resolves git change sources ("staged", "since:main", ...) to the files
+ * the local repository reports. Only local git commands are run, nothing
+ * is fetched.
+ */
+export class GitChangeTracker {
+  private workTreeByDirectory: Map<string, boolean> = new Map();
+  private mergeBases: Map<string, string> = new Map();
+
+  /**
+   * Parse a source string, or return undefined when it is not valid
+   */
+  public static parseSource(source: string): GitChangeSource | undefined {
+    const separatorIndex = source.indexOf(":");
+    const kind = (
+      separatorIndex === -1 ? source : source.slice(0, separatorIndex)
+    ).trim() as GitChangeKind;
+    const ref =
+      separatorIndex === -1 ? "" : source.slice(separatorIndex + 1).trim();
+
+    if (!GIT_CHANGE_KINDS.includes(kind)) {
+      return undefined;
+    }
+
+    const needsRef = GitChangeTracker.needsRef(kind);
+    // A ref starting with "-" would be read as an option by git
+    if (needsRef !== (ref !== "") || ref.startsWith("-")) {
+      return undefined;
+    }
+
+    return needsRef ? { kind, ref } : { kind };
+  }
+
+  public static formatSource(source: GitChangeSource): string {
+    return source.ref ? `${source.kind}:${source.ref}` : source.kind;
+  }
+
+  /**
+   * Human readable name, e.g. "Changed since merge-base with main"
+   */
+  public static describeSource(source: string): string {
+    const parsed = GitChangeTracker.parseSource(source);
+    if (!parsed) {
+      return source;
+    }
+    const label = GIT_CHANGES.LABELS[parsed.kind];
+    return parsed.ref ? `${label} ${parsed.ref}` : label;
+  }
+
+  public static needsRef(kind: GitChangeKind): boolean {
+    return kind === "since" || kind === "merge-base";
+  }
+
+  /**
+   * Existing files reported by the source in every workspace folder that
+   * is inside a git repository. Deleted files are left out.
+   */
+  public async getChangedFiles(
+    workspaceRoots: WorkspaceRoot[],
+    source: string
+  ): Promise<TrackingItem[]> {
+    const parsed = GitChangeTracker.parseSource(source);
+    if (!parsed) {
+      throw new Error(`Invalid git change source: ${source}`);
+    }
+
+    const items: TrackingItem[] = [];
+    for (const root of workspaceRoots) {
+      if (!(await this.isInsideWorkTree(root.path))) {
+        continue;
+      }
+
+      for (const relativeToRoot of await this.getChangedPaths(
+        root.path,
+        parsed
+      )) {
+        const absolutePath = path.join(root.path, relativeToRoot);
+        const stats = await PathUtils.getFileStats(absolutePath);
+        if (stats?.isFile()) {
+          items.push({
+            path: absolutePath,
+            relativePath: PathUtils.getRelativePathFromWorkspace(absolutePath),
+            isFile: true,
+            isTracked: true,
+          });
+        }
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Whether the ref resolves to a commit in the repository at rootPath
+   */
+  public async isValidRef(rootPath: string, ref: string): Promise<boolean> {
+    if (ref.startsWith("-")) {
+      return false;
+    }
+    try {
+      await this.runGit(rootPath, [
+        "rev-parse",
+        "--verify",
+        "--quiet",
+        `${ref}^{commit}`,
+      ]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  public async isInsideWorkTree(rootPath: string): Promise<boolean> {
+    try {
+      const output = await this.runGit(rootPath, [
+        "rev-parse",
+        "--is-inside-work-tree",
+      ]);
+      return output.trim() === "true";
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Unified diff of one file against a base: "HEAD", "index",
+   * "merge-base:<ref>" or any other ref. Files git does not track yet
+   * diff against nothing. Returns "" when the file is unchanged and null
+   * when it is not inside a git repository.
+   */
+  public async getFileDiff(
+    filePath: string,
+    base: string,
+    contextLines: number
+  ): Promise<string | null> {
+    const directory = path.dirname(filePath);
+    const fileName = path.basename(filePath);
+
+    let isInside = this.workTreeByDirectory.get(directory);
+    if (isInside === undefined) {
+      isInside = await this.isInsideWorkTree(directory);
+      this.workTreeByDirectory.set(directory, isInside);
+    }
+    if (!isInside) {
+      return null;
+    }
+
+    const diffArgs = [
+      "diff",
+      "--no-color",
+      "--no-ext-diff",
+      `--unified=${Math.max(0, Math.floor(contextLines))}`,
+    ];
+
+    if (!(await this.isFileTracked(directory, fileName))) {
+      // "git diff --no-index" exits with 1 when the files differ
+      return this.runGit(
+        directory,
+        [...diffArgs, "--no-index", "--", "/dev/null", fileName],
+        [1]
+      );
+    }
+
+    return this.runGit(directory, [
+      ...diffArgs,
+      ...(await this.resolveDiffBase(directory, base)),
+      "--",
+      fileName,
+    ]);
+  }
+
+  /**
+   * Human readable diff base, e.g. "merge-base with main"
+   */
+  public static describeDiffBase(base: string): string {
+    if (base === DIFF.INDEX_BASE) {
+      return "the index";
+    }
+    if (base.startsWith(DIFF.MERGE_BASE_PREFIX)) {
+      return `merge-base with ${base.slice(DIFF.MERGE_BASE_PREFIX.length)}`;
+    }
+    return base;
+  }
+
+  /**
+   * "git diff" arguments selecting what the working tree is compared with
+   */
+  private async resolveDiffBase(
+    directory: string,
+    base: string
+  ): Promise<string[]> {
+    if (base === DIFF.INDEX_BASE) {
+      return [];
+    }
+
+    const ref = base.startsWith(DIFF.MERGE_BASE_PREFIX)
+      ? base.slice(DIFF.MERGE_BASE_PREFIX.length)
+      : base;
+    if (!ref || ref.startsWith("-")) {
+      throw new Error(`Invalid diff base: ${base}`);
+    }
+    if (ref === base) {
+      return [ref];
+    }
+
+    const cacheKey = `${directory}\0${ref}`;
+    let mergeBase = this.mergeBases.get(cacheKey);
+    if (!mergeBase) {
+      mergeBase = (
+        await this.runGit(directory, ["merge-base", "HEAD", ref])
+      ).trim();
+      this.mergeBases.set(cacheKey, mergeBase);
+    }
+    return [mergeBase];
+  }
+
+  private async isFileTracked(
+    directory: string,
+    fileName: string
+  ): Promise<boolean> {
+    try {
+      await this.runGit(directory, [
+        "ls-files",
+        "--error-unmatch",
+        "--",
+        fileName,
+      ]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Paths relative to rootPath. Only changes below rootPath are listed.
+   */
+  private async getChangedPaths(
+    rootPath: string,
+    source: GitChangeSource
+  ): Promise<string[]> {
+    const diffArgs = ["diff", "--name-only", "--relative", "-z"];
+    // Lowercase filter letters exclude: drop deleted files
+    const noDeletions = "--diff-filter=d";
+    const ref = source.ref ?? "HEAD";
+
+    let output: string;
+    switch (source.kind) {
+      case "staged":
+        output = await this.runGit(rootPath, [
+          ...diffArgs,
+          noDeletions,
+          "--cached",
+        ]);
+        break;
+      case "unstaged":
+        output = await this.runGit(rootPath, [...diffArgs, noDeletions]);
+        break;
+      case "untracked":
+        output = await this.runGit(rootPath, [
+          "ls-files",
+          "--others",
+          "--exclude-standard",
+          "-z",
+        ]);
+        break;
+      case "since":
+        output = await this.runGit(rootPath, [
+          ...diffArgs,
+          noDeletions,
+          ref,
+          "--",
+        ]);
+        break;
+      case "merge-base": {
+        const mergeBase = (
+          await this.runGit(rootPath, ["merge-base", "HEAD", ref])
+        ).trim();
+        output = await this.runGit(rootPath, [
+          ...diffArgs,
+          noDeletions,
+          mergeBase,
+          "--",
+        ]);
+        break;
+      }
+    }
+
+    return output.split("\0").filter((relativePath) => relativePath !== "");
+  }
+
+  /**
+   * Run git and return its output. Exit codes in successExitCodes are not
+   * treated as failures.
+   */
+  private async runGit(
+    cwd: string,
+    args: string[],
+    successExitCodes: number[] = []
+  ): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync(
+        "git",
+        ["--no-optional-locks", ...args],
+        { cwd, maxBuffer: GIT_CHANGES.MAX_OUTPUT_BYTES }
+      );
+      return stdout;
+    } catch (error) {
+      const { code, stdout, stderr } = error as {
+        code?: number | string;
+        stdout?: string;
+        stderr?: string;
+      };
+      if (typeof code === "number" && successExitCodes.includes(code)) {
+        return stdout ?? "";
+      }
+      throw new Error(stderr?.trim() || String(error));
+    }
+  }
+}
@@ -0,0 +1,268 @@
+import * as fs from "fs";
+import * as path from "path";
+import { IGNORE_FILES } from "../constants";
+import { GitignoreMatchResult, GitignoreRule } from "../models/types";
+import { PathUtils } from "../utils/pathUtils";
+
+export class GitignoreMatcher {
+  private rootPaths: string[];
+  // Both caches are keyed by absolute directory path
+  private rulesCache: Map<string, GitignoreRule[]> = new Map();
+  private directoryCache: Map<string, GitignoreMatchResult> = new Map();
+
+  constructor(rootPaths: string[]) {
+    // Deepest roots first so nested workspace folders win
+    this.rootPaths = [...rootPaths].sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Check a path against .git/info/exclude and every .gitignore /
+   * .aicontextignore between the root and the path
+   */
+  public async match(
+    absolutePath: string,
+    isDirectory: boolean
+  ): Promise<GitignoreMatchResult> {
+    const rootPath = this.rootPaths.find((root) =>
+      PathUtils.isSubdirectory(root, absolutePath)
+    );
+    if (!rootPath) {
+      return { ignored: false };
+    }
+
+    const relativePath = path
+      .relative(rootPath, absolutePath)
+      .replace(/\\/g, "/");
+
+    if (!relativePath) {
+      return { ignored: false };
+    }
+
+    const segments = relativePath.split("/");
+
+    // Git never looks inside its own directory
+    if (segments.includes(".git")) {
+      return { ignored: true };
+    }
+
+    // Anything inside an ignored directory is ignored and cannot be re-included
+    for (let i = 1; i < segments.length; i++) {
+      const parentResult = await this.matchDirectory(
+        rootPath,
+        segments.slice(0, i)
+      );
+      if (parentResult.ignored) {
+        return parentResult;
+      }
+    }
+
+    return isDirectory
+      ? this.matchDirectory(rootPath, segments)
+      : this.matchSegments(rootPath, segments, false);
+  }
+
+  public async isIgnored(
+    absolutePath: string,
+    isDirectory: boolean
+  ): Promise<boolean> {
+    const result = await this.match(absolutePath, isDirectory);
+    return result.ignored;
+  }
+
+  private async matchDirectory(
+    rootPath: string,
+    segments: string[]
+  ): Promise<GitignoreMatchResult> {
+    const key = path.join(rootPath, ...segments);
+    const cached = this.directoryCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this.matchSegments(rootPath, segments, true);
+    this.directoryCache.set(key, result);
+    return result;
+  }
+
+  private async matchSegments(
+    rootPath: string,
+    segments: string[],
+    isDirectory: boolean
+  ): Promise<GitignoreMatchResult> {
+    let result: GitignoreMatchResult = { ignored: false };
+
+    // Outermost ignore files first so deeper files override them,
+    // and within a file the last matching rule wins
+    for (let i = 0; i < segments.length; i++) {
+      const directory = segments.slice(0, i).join("/");
+      const pathFromBase = segments.slice(i).join("/");
+      const rules = await this.getRulesForDirectory(rootPath, directory);
+
+      for (const rule of rules) {
+        if (rule.directoryOnly && !isDirectory) {
+          continue;
+        }
+        if (rule.regex.test(pathFromBase)) {
+          result = { ignored: !rule.negated, rule };
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private async getRulesForDirectory(
+    rootPath: string,
+    directory: string
+  ): Promise<GitignoreRule[]> {
+    const key = path.join(rootPath, directory);
+    const cached = this.rulesCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const sources =
+      directory === ""
+        ? [
+            IGNORE_FILES.GIT_INFO_EXCLUDE,
+            IGNORE_FILES.GITIGNORE,
+            IGNORE_FILES.AI_CONTEXT_IGNORE,
+          ]
+        : [
+            `${directory}/${IGNORE_FILES.GITIGNORE}`,
+            `${directory}/${IGNORE_FILES.AI_CONTEXT_IGNORE}`,
+          ];
+
+    const rules: GitignoreRule[] = [];
+    for (const source of sources) {
+      try {
+        const content = await fs.promises.readFile(
+          path.join(rootPath, source),
+          "utf8"
+        );
+        rules.push(...GitignoreMatcher.parse(content, directory, source));
+      } catch {
+        // Missing ignore files are expected
+      }
+    }
+
+    this.rulesCache.set(key, rules);
+    return rules;
+  }
+
+  /**
+   * Parse ignore file content using gitignore semantics
+   */
+  public static parse(
+    content: string,
+    basePath: string,
+    source: string
+  ): GitignoreRule[] {
+    const rules: GitignoreRule[] = [];
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      // Trailing spaces are ignored unless escaped
+      let line = rawLine.replace(/(?<!\\)\s+$/, "");
+
+      if (line === "" || line.startsWith("#")) {
+        continue;
+      }
+
+      let negated = false;
+      if (line.startsWith("!")) {
+        negated = true;
+        line = line.slice(1);
+      } else if (line.startsWith("\\!") || line.startsWith("\\#")) {
+        line = line.slice(1);
+      }
+
+      let directoryOnly = false;
+      if (line.endsWith("/")) {
+        directoryOnly = true;
+        line = line.slice(0, -1);
+      }
+
+      if (line === "") {
+        continue;
+      }
+
+      // A slash anywhere but the end anchors the pattern to its directory
+      const anchored = line.includes("/");
+      if (line.startsWith("/")) {
+        line = line.slice(1);
+      }
+
+      const body = GitignoreMatcher.globToRegexSource(line);
+      rules.push({
+        pattern: rawLine.trim(),
+        regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+        negated,
+        directoryOnly,
+        basePath,
+        source,
+      });
+    }
+
+    return rules;
+  }
+
+  private static globToRegexSource(glob: string): string {
+    let result = "";
+    let i = 0;
+
+    while (i < glob.length) {
+      const char = glob[i];
+
+      if (char === "*" && glob[i + 1] === "*") {
+        const atStart = i === 0 || glob[i - 1] === "/";
+        const atEnd = i + 2 === glob.length;
+        const beforeSlash = glob[i + 2] === "/";
+
+        if (atStart && beforeSlash) {
+          // "**/" matches zero or more directories
+          result += "(?:.*/)?";
+          i += 3;
+          continue;
+        }
+        if (atStart && atEnd) {
+          // Trailing "/**" matches everything inside
+          result += ".*";
+          i += 2;
+          continue;
+        }
+
+        // Otherwise "**" behaves like a regular "*"
+        result += "[^/]*";
+        i += 2;
+        continue;
+      }
+
+      if (char === "*") {
+        result += "[^/]*";
+      } else if (char === "?") {
+        result += "[^/]";
+      } else if (char === "[") {
+        const closing = glob.indexOf("]", i + 2);
+        if (closing === -1) {
+          result += "\\[";
+        } else {
+          let charClass = glob.slice(i + 1, closing).replace(/\\/g, "\\\\");
+          if (charClass.startsWith("!")) {
+            charClass = "^" + charClass.slice(1);
+          }
+          result += `[${charClass}]`;
+          i = closing;
+        }
+      } else if (char === "\\" && i + 1 < glob.length) {
+        i++;
+        result += glob[i].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+      } else {
+        result += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+      }
+
+      i++;
+    }
+
+    return result;
+  }
+}
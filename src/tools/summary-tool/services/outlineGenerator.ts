@@ -0,0 +1,490 @@
+import * as path from "path";
+import * as ts from "typescript";
+import * as vscode from "vscode";
+import { OUTLINE, RULE_PREFIXES } from "../constants";
+import { DetailLevel } from "../models/types";
+import { ExclusionMatcher } from "./exclusionMatcher";
+
+/**
+ * Reduces source files to their API surface: imports, declarations,
+ * signatures, type definitions and doc comments, with bodies replaced
+ * by "…"
+ */
+export class OutlineGenerator {
+  /**
+   * Rules for the outline setting: plain or "+" entries outline matching
+   * files, "-" entries keep them in full. The last match wins.
+   */
+  public static createLevelMatcher(entries: string[]): ExclusionMatcher {
+    return new ExclusionMatcher(
+      entries.map((entry) => {
+        const trimmed = entry.trim();
+        return trimmed.startsWith(RULE_PREFIXES.EXCLUDE) ||
+          trimmed.startsWith(RULE_PREFIXES.INCLUDE)
+          ? trimmed
+          : RULE_PREFIXES.INCLUDE + trimmed;
+      })
+    );
+  }
+
+  public static getDetailLevel(
+    levelMatcher: ExclusionMatcher,
+    relativePath: string
+  ): DetailLevel {
+    const match = levelMatcher
+      .getMatches(relativePath, false)
+      .filter((rule) => rule.action !== "collapse")
+      .pop();
+    return match?.action === "include" ? "outline" : "full";
+  }
+
+  /**
+   * Outline of a file, or null when its language has no outline support
+   */
+  public async generate(
+    filePath: string,
+    content: string
+  ): Promise<string | null> {
+    const scriptKind = OutlineGenerator.getScriptKind(filePath);
+    if (scriptKind !== undefined) {
+      return OutlineGenerator.outlineScript(filePath, content, scriptKind);
+    }
+    return this.outlineFromDocumentSymbols(filePath);
+  }
+
+  private static getScriptKind(filePath: string): ts.ScriptKind | undefined {
+    switch (path.extname(filePath).toLowerCase()) {
+      case ".ts":
+      case ".mts":
+      case ".cts":
+        return ts.ScriptKind.TS;
+      case ".tsx":
+        return ts.ScriptKind.TSX;
+      case ".js":
+      case ".mjs":
+      case ".cjs":
+        return ts.ScriptKind.JS;
+      case ".jsx":
+        return ts.ScriptKind.JSX;
+      default:
+        return undefined;
+    }
+  }
+
+  private static outlineScript(
+    filePath: string,
+    content: string,
+    scriptKind: ts.ScriptKind
+  ): string {
+    const sourceFile = ts.createSourceFile(
+      filePath,
+      content,
+      ts.ScriptTarget.Latest,
+      true,
+      scriptKind
+    );
+    const lines: string[] = [];
+    let previous: ts.Statement | undefined;
+
+    for (const statement of sourceFile.statements) {
+      const outline = OutlineGenerator.outlineStatement(statement, sourceFile);
+      if (outline === null) {
+        continue;
+      }
+
+      // Blank line between declarations, imports stay together
+      const isImport = ts.isImportDeclaration(statement);
+      if (previous && !(isImport && ts.isImportDeclaration(previous))) {
+        lines.push("");
+      }
+      lines.push(outline);
+      previous = statement;
+    }
+
+    return lines.join("\n") + "\n";
+  }
+
+  /**
+   * Outline of one top-level or namespace statement, or null to drop it
+   */
+  private static outlineStatement(
+    statement: ts.Statement,
+    sourceFile: ts.SourceFile
+  ): string | null {
+    const docs = OutlineGenerator.getDocComments(statement, sourceFile);
+
+    if (
+      ts.isImportDeclaration(statement) ||
+      ts.isImportEqualsDeclaration(statement) ||
+      ts.isExportDeclaration(statement) ||
+      ts.isExportAssignment(statement) ||
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isTypeAliasDeclaration(statement) ||
+      ts.isEnumDeclaration(statement)
+    ) {
+      return docs + OutlineGenerator.getIndentedText(statement, sourceFile);
+    }
+
+    if (ts.isFunctionDeclaration(statement)) {
+      return docs + OutlineGenerator.elideBody(statement, sourceFile);
+    }
+
+    if (ts.isClassDeclaration(statement)) {
+      return docs + OutlineGenerator.outlineClass(statement, sourceFile);
+    }
+
+    if (ts.isModuleDeclaration(statement)) {
+      return docs + OutlineGenerator.outlineModule(statement, sourceFile);
+    }
+
+    if (ts.isVariableStatement(statement)) {
+      const outline = OutlineGenerator.outlineVariableStatement(
+        statement,
+        sourceFile
+      );
+      return outline === null ? null : docs + outline;
+    }
+
+    if (OutlineGenerator.isCommonJsExport(statement)) {
+      return (
+        docs + OutlineGenerator.outlineCommonJsExport(statement, sourceFile)
+      );
+    }
+
+    // Plain statements are implementation details
+    return null;
+  }
+
+  /**
+   * "module.exports = …" or "exports.name = …"
+   */
+  private static isCommonJsExport(
+    statement: ts.Statement
+  ): statement is ts.ExpressionStatement & {
+    expression: ts.BinaryExpression;
+  } {
+    if (
+      !ts.isExpressionStatement(statement) ||
+      !ts.isBinaryExpression(statement.expression) ||
+      statement.expression.operatorToken.kind !== ts.SyntaxKind.EqualsToken
+    ) {
+      return false;
+    }
+    const target = statement.expression.left.getText();
+    return target === "module.exports" || /^(module\.)?exports\./.test(target);
+  }
+
+  private static outlineCommonJsExport(
+    statement: ts.ExpressionStatement & { expression: ts.BinaryExpression },
+    sourceFile: ts.SourceFile
+  ): string {
+    const { left, right } = statement.expression;
+    const value = OutlineGenerator.isFunctionExpression(right)
+      ? OutlineGenerator.elideBody(right, sourceFile).trimStart()
+      : OutlineGenerator.shortenInitializer(right, sourceFile);
+    return (
+      OutlineGenerator.getIndent(statement, sourceFile) +
+      `${left.getText(sourceFile)} = ${value};`
+    );
+  }
+
+  /**
+   * Initializer text, or "…" when it is long or spans several lines
+   */
+  private static shortenInitializer(
+    initializer: ts.Expression,
+    sourceFile: ts.SourceFile
+  ): string {
+    const text = initializer.getText(sourceFile);
+    return text.includes("\n") || text.length > OUTLINE.MAX_INITIALIZER_LENGTH
+      ? OUTLINE.ELLIPSIS
+      : text;
+  }
+
+  private static outlineClass(
+    node: ts.ClassDeclaration | ts.ClassExpression,
+    sourceFile: ts.SourceFile
+  ): string {
+    // The members start right after the opening brace
+    const lines = [
+      OutlineGenerator.getTextUntil(
+        node,
+        node.members.pos,
+        sourceFile
+      ).trimEnd(),
+    ];
+
+    for (const member of node.members) {
+      // Private members are not part of the API surface
+      if (
+        ts.canHaveModifiers(member) &&
+        ts
+          .getModifiers(member)
+          ?.some((modifier) => modifier.kind === ts.SyntaxKind.PrivateKeyword)
+      ) {
+        continue;
+      }
+      if (member.name && ts.isPrivateIdentifier(member.name)) {
+        continue;
+      }
+
+      const docs = OutlineGenerator.getDocComments(member, sourceFile);
+      if (
+        ts.isMethodDeclaration(member) ||
+        ts.isConstructorDeclaration(member) ||
+        ts.isGetAccessorDeclaration(member) ||
+        ts.isSetAccessorDeclaration(member)
+      ) {
+        lines.push(docs + OutlineGenerator.elideBody(member, sourceFile));
+      } else if (ts.isPropertyDeclaration(member)) {
+        lines.push(
+          docs + OutlineGenerator.elideInitializer(member, sourceFile)
+        );
+      } else if (!ts.isClassStaticBlockDeclaration(member)) {
+        lines.push(docs + OutlineGenerator.getIndentedText(member, sourceFile));
+      }
+    }
+
+    lines.push(OutlineGenerator.getIndent(node, sourceFile) + "}");
+    return lines.join("\n");
+  }
+
+  private static outlineModule(
+    node: ts.ModuleDeclaration,
+    sourceFile: ts.SourceFile
+  ): string {
+    const body = node.body;
+    if (!body || !ts.isModuleBlock(body)) {
+      return OutlineGenerator.getIndentedText(node, sourceFile);
+    }
+
+    const lines = [
+      OutlineGenerator.getTextUntil(
+        node,
+        body.getStart(sourceFile),
+        sourceFile
+      ) + "{",
+    ];
+    for (const statement of body.statements) {
+      const outline = OutlineGenerator.outlineStatement(statement, sourceFile);
+      if (outline !== null) {
+        lines.push(outline);
+      }
+    }
+    lines.push(OutlineGenerator.getIndent(node, sourceFile) + "}");
+    return lines.join("\n");
+  }
+
+  /**
+   * Exported variables keep their declarations and functions assigned to
+   * variables keep their signatures; other variables are dropped
+   */
+  private static outlineVariableStatement(
+    statement: ts.VariableStatement,
+    sourceFile: ts.SourceFile
+  ): string | null {
+    const isExported = ts
+      .getModifiers(statement)
+      ?.some((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword);
+    const hasFunction = statement.declarationList.declarations.some(
+      (declaration) =>
+        declaration.initializer &&
+        OutlineGenerator.isFunctionExpression(declaration.initializer)
+    );
+    if (!isExported && !hasFunction) {
+      return null;
+    }
+
+    return OutlineGenerator.elideInitializer(statement, sourceFile);
+  }
+
+  private static isFunctionExpression(
+    node: ts.Node
+  ): node is ts.ArrowFunction | ts.FunctionExpression {
+    return ts.isArrowFunction(node) || ts.isFunctionExpression(node);
+  }
+
+  /**
+   * Text of a function-like node with its body replaced by "{ … }"
+   */
+  private static elideBody(
+    node: ts.FunctionLikeDeclaration,
+    sourceFile: ts.SourceFile
+  ): string {
+    if (!node.body) {
+      return OutlineGenerator.getIndentedText(node, sourceFile);
+    }
+
+    const signature = OutlineGenerator.getTextUntil(
+      node,
+      node.body.getStart(sourceFile),
+      sourceFile
+    );
+    return ts.isBlock(node.body)
+      ? `${signature}{ ${OUTLINE.ELLIPSIS} }`
+      : `${signature}${OUTLINE.ELLIPSIS}`;
+  }
+
+  /**
+   * Text of a declaration with long initializers replaced by "…" and
+   * function initializers reduced to their signature
+   */
+  private static elideInitializer(
+    node: ts.Node,
+    sourceFile: ts.SourceFile
+  ): string {
+    const start = node.getStart(sourceFile);
+    const text = sourceFile.text;
+    const replacements: { start: number; end: number; text: string }[] = [];
+
+    const visit = (child: ts.Node): void => {
+      const initializer =
+        ts.isVariableDeclaration(child) || ts.isPropertyDeclaration(child)
+          ? child.initializer
+          : undefined;
+
+      if (initializer) {
+        if (OutlineGenerator.isFunctionExpression(initializer)) {
+          const body = initializer.body;
+          replacements.push({
+            start: body.getStart(sourceFile),
+            end: body.end,
+            text: ts.isBlock(body)
+              ? `{ ${OUTLINE.ELLIPSIS} }`
+              : OUTLINE.ELLIPSIS,
+          });
+        } else {
+          replacements.push({
+            start: initializer.getStart(sourceFile),
+            end: initializer.end,
+            text: OutlineGenerator.shortenInitializer(initializer, sourceFile),
+          });
+        }
+        return;
+      }
+
+      ts.forEachChild(child, visit);
+    };
+    visit(node);
+
+    let result = "";
+    let position = start;
+    for (const replacement of replacements) {
+      result += text.slice(position, replacement.start) + replacement.text;
+      position = replacement.end;
+    }
+    result += text.slice(position, node.end);
+
+    return OutlineGenerator.getIndent(node, sourceFile) + result;
+  }
+
+  /**
+   * JSDoc comments directly before a node, each on its own lines
+   */
+  private static getDocComments(
+    node: ts.Node,
+    sourceFile: ts.SourceFile
+  ): string {
+    const ranges =
+      ts.getLeadingCommentRanges(sourceFile.text, node.getFullStart()) ?? [];
+    return ranges
+      .filter(
+        (range) =>
+          range.kind === ts.SyntaxKind.MultiLineCommentTrivia &&
+          sourceFile.text.startsWith("/**", range.pos)
+      )
+      .map((range) => {
+        const indent = OutlineGenerator.getIndentAt(range.pos, sourceFile);
+        return indent + sourceFile.text.slice(range.pos, range.end) + "\n";
+      })
+      .join("");
+  }
+
+  private static getTextUntil(
+    node: ts.Node,
+    end: number,
+    sourceFile: ts.SourceFile
+  ): string {
+    return (
+      OutlineGenerator.getIndent(node, sourceFile) +
+      sourceFile.text.slice(node.getStart(sourceFile), end).trimEnd() +
+      " "
+    );
+  }
+
+  private static getIndentedText(
+    node: ts.Node,
+    sourceFile: ts.SourceFile
+  ): string {
+    return (
+      OutlineGenerator.getIndent(node, sourceFile) + node.getText(sourceFile)
+    );
+  }
+
+  private static getIndent(node: ts.Node, sourceFile: ts.SourceFile): string {
+    return OutlineGenerator.getIndentAt(node.getStart(sourceFile), sourceFile);
+  }
+
+  /**
+   * Whitespace between the start of the line and a position
+   */
+  private static getIndentAt(
+    position: number,
+    sourceFile: ts.SourceFile
+  ): string {
+    const { line } = sourceFile.getLineAndCharacterOfPosition(position);
+    const lineStart = sourceFile.getPositionOfLineAndCharacter(line, 0);
+    const prefix = sourceFile.text.slice(lineStart, position);
+    return /^\s*$/.test(prefix) ? prefix : "";
+  }
+
+  /**
+   * Outline from the language extension's document symbols: the first
+   * line of every symbol, nested by indentation
+   */
+  private async outlineFromDocumentSymbols(
+    filePath: string
+  ): Promise<string | null> {
+    try {
+      const uri = vscode.Uri.file(filePath);
+      const document = await vscode.workspace.openTextDocument(uri);
+      const symbols = await vscode.commands.executeCommand<
+        (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined
+      >("vscode.executeDocumentSymbolProvider", uri);
+      if (!symbols || symbols.length === 0) {
+        return null;
+      }
+
+      const lines: string[] = [];
+      const addSymbol = (symbol: vscode.DocumentSymbol, depth: number) => {
+        const firstLine = document.lineAt(symbol.range.start.line).text.trim();
+        const isMultiLine = symbol.range.end.line > symbol.range.start.line;
+        lines.push(
+          "  ".repeat(depth) +
+            firstLine +
+            (isMultiLine && symbol.children.length === 0
+              ? ` ${OUTLINE.ELLIPSIS}`
+              : "")
+        );
+        for (const child of symbol.children) {
+          addSymbol(child, depth + 1);
+        }
+      };
+
+      for (const symbol of symbols) {
+        if ("children" in symbol) {
+          addSymbol(symbol, 0);
+        } else {
+          // Flat symbol lists only have locations
+          const line = symbol.location.range.start.line;
+          lines.push(document.lineAt(line).text.trim());
+        }
+      }
+
+      return lines.join("\n") + "\n";
+    } catch (error) {
+      console.warn(`No document symbols for ${filePath}:`, error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,237 @@
+import * as path from "path";
+import {
+  LANGUAGES_BY_EXTENSION,
+  LANGUAGES_BY_FILE_NAME,
+  OUTPUT_FILES,
+} from "../constants";
+import { FileDiff, OutputFormat } from "../models/types";
+
+/**
+ * Renders the single-file summary in the chosen output format
+ */
+export class OutputFormatter {
+  private format: OutputFormat;
+
+  constructor(format: OutputFormat = "text") {
+    this.format = format;
+  }
+
+  public getFormat(): OutputFormat {
+    return this.format;
+  }
+
+  public getOutputFileName(): string {
+    switch (this.format) {
+      case "markdown":
+        return OUTPUT_FILES.COMBINED_FILES_MARKDOWN;
+      case "xml":
+        return OUTPUT_FILES.COMBINED_FILES_XML;
+      default:
+        return OUTPUT_FILES.COMBINED_FILES;
+    }
+  }
+
+  /**
+   * Content written before the first file. Plain text keeps the
+   * structure in its own file only.
+   */
+  public formatPreamble(
+    structureText?: string,
+    structureLanguage: string = "json"
+  ): string {
+    if (this.format === "xml") {
+      const structure = structureText
+        ? `<folder_structure>\n${OutputFormatter.wrapCData(
+            structureText
+          )}\n</folder_structure>\n`
+        : "";
+      return `<documents>\n${structure}`;
+    }
+
+    if (this.format !== "markdown" || !structureText) {
+      return "";
+    }
+
+    return (
+      "# Project Structure\n\n" +
+      OutputFormatter.fenceCodeBlock(structureText, structureLanguage) +
+      "\n\n"
+    );
+  }
+
+  /**
+   * Content written after the last file
+   */
+  public formatEpilogue(): string {
+    return this.format === "xml" ? "</documents>\n" : "";
+  }
+
+  /**
+   * Render one file, followed by its diff when given. The index is its
+   * 1-based position in the output.
+   */
+  public formatFile(
+    relativePath: string,
+    content: string,
+    index: number = 1,
+    diff?: FileDiff
+  ): string {
+    if (this.format === "markdown") {
+      const diffSection = diff
+        ? `\n\n**Diff against ${diff.base}**\n\n` +
+          OutputFormatter.fenceCodeBlock(diff.diff, "diff")
+        : "";
+      return (
+        `## ${relativePath}\n\n` +
+        OutputFormatter.fenceCodeBlock(
+          content,
+          OutputFormatter.getLanguage(relativePath)
+        ) +
+        diffSection
+      );
+    }
+
+    if (this.format === "xml") {
+      return OutputFormatter.formatXmlDocument(
+        relativePath,
+        content,
+        index,
+        diff
+      );
+    }
+
+    // Create header for this file
+    const header = OutputFormatter.formatTextHeader(`File: ${relativePath}`);
+    const diffSection = diff
+      ? OutputFormatter.formatTextHeader(
+          `Diff: ${relativePath} (against ${diff.base})`
+        ) + diff.diff
+      : "";
+
+    return header + content + (diffSection ? `\n${diffSection}` : "");
+  }
+
+  /**
+   * Render only the diff of a file, in place of its content
+   */
+  public formatDiff(
+    relativePath: string,
+    diff: FileDiff,
+    index: number = 1
+  ): string {
+    if (this.format === "markdown") {
+      return (
+        `## ${relativePath} (diff against ${diff.base})\n\n` +
+        OutputFormatter.fenceCodeBlock(diff.diff, "diff")
+      );
+    }
+
+    if (this.format === "xml") {
+      const attributes = [
+        `index="${index}"`,
+        `path="${OutputFormatter.escapeXml(relativePath)}"`,
+      ];
+      return (
+        `<document ${attributes.join(" ")}>\n` +
+        `<source>${OutputFormatter.escapeXml(relativePath)}</source>\n` +
+        OutputFormatter.formatXmlDiff(diff) +
+        "</document>"
+      );
+    }
+
+    return (
+      OutputFormatter.formatTextHeader(
+        `Diff: ${relativePath} (against ${diff.base})`
+      ) + diff.diff
+    );
+  }
+
+  /**
+   * Language tag for a file, or "" when it is not recognized
+   */
+  public static getLanguage(filePath: string): string {
+    const fileName = path.basename(filePath);
+    return (
+      LANGUAGES_BY_FILE_NAME[fileName] ??
+      LANGUAGES_BY_EXTENSION[path.extname(fileName).toLowerCase()] ??
+      ""
+    );
+  }
+
+  private static formatTextHeader(title: string): string {
+    return "-".repeat(60) + "\n" + `${title}\n` + "-".repeat(60) + "\n";
+  }
+
+  private static formatXmlDiff(diff: FileDiff): string {
+    return (
+      `<diff base="${OutputFormatter.escapeXml(diff.base)}">\n` +
+      OutputFormatter.wrapCData(diff.diff) +
+      "\n</diff>\n"
+    );
+  }
+
+  private static formatXmlDocument(
+    relativePath: string,
+    content: string,
+    index: number,
+    diff?: FileDiff
+  ): string {
+    const attributes = [
+      `index="${index}"`,
+      `path="${OutputFormatter.escapeXml(relativePath)}"`,
+      `language="${OutputFormatter.getLanguage(relativePath) || "text"}"`,
+      `size="${Buffer.byteLength(content, "utf8")}"`,
+      `lines="${OutputFormatter.countLines(content)}"`,
+    ];
+
+    return (
+      `<document ${attributes.join(" ")}>\n` +
+      `<source>${OutputFormatter.escapeXml(relativePath)}</source>\n` +
+      "<document_content>\n" +
+      OutputFormatter.wrapCData(content) +
+      "\n</document_content>\n" +
+      (diff ? OutputFormatter.formatXmlDiff(diff) : "") +
+      "</document>"
+    );
+  }
+
+  public static escapeXml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;");
+  }
+
+  /**
+   * Wrap content in a CDATA section, splitting any "]]>" inside it so the
+   * section cannot be closed early
+   */
+  public static wrapCData(content: string): string {
+    return `<![CDATA[${content.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+  }
+
+  private static countLines(content: string): number {
+    if (content === "") {
+      return 0;
+    }
+    const lineBreaks = content.match(/\n/g)?.length ?? 0;
+    return content.endsWith("\n") ? lineBreaks : lineBreaks + 1;
+  }
+
+  /**
+   * Wrap content in a fenced code block whose fence is longer than any
+   * backtick run inside the content
+   */
+  public static fenceCodeBlock(content: string, language: string): string {
+    const longestRun = (content.match(/`+/g) ?? []).reduce(
+      (longest, run) => Math.max(longest, run.length),
+      0
+    );
+    const fence = "`".repeat(Math.max(3, longestRun + 1));
+    const body = content.endsWith("\n") ? content : content + "\n";
+
+    return `${fence}${language}\n${body}${fence}`;
+  }
+}
@@ -0,0 +1,178 @@
+import {
+  PathExplanation,
+  RuleExplanation,
+  RuleMatch,
+  WorkspaceRoot,
+} from "../models/types";
+import { PathUtils } from "../utils/pathUtils";
+import { ExclusionMatcher } from "./exclusionMatcher";
+import { FileTracker } from "./fileTracker";
+import { GitignoreMatcher } from "./gitignoreMatcher";
+
+/**
+ * Works out why an item is or is not part of a summary: the rules matching
+ * it or one of its folders and how, the rule tracking it and the rule or
+ * ignore file leaving it out
+ */
+export class PathExplainer {
+  private ruleMatcher: ExclusionMatcher;
+
+  constructor(
+    private rules: string[],
+    private gitignoreMatcher: GitignoreMatcher | null = null,
+    private gitChangeSources: string[] = []
+  ) {
+    this.ruleMatcher = new ExclusionMatcher(rules);
+  }
+
+  public async explain(
+    workspaceRoots: WorkspaceRoot[],
+    itemPath: string,
+    isDirectory: boolean
+  ): Promise<PathExplanation> {
+    const relativePath = PathUtils.getRelativePathFromWorkspace(
+      itemPath
+    ).replace(/\\/g, "/");
+    const levels = ExclusionMatcher.getLevels(relativePath);
+
+    const matches = this.collectMatches(levels);
+    const trackedBy = PathExplainer.findTrackingRule(matches);
+    const excludedBy = this.findExcludingRule(
+      levels,
+      trackedBy ? levels.indexOf(trackedBy.matchedPath) : 0
+    );
+    const gitignoredBy = this.gitignoreMatcher
+      ? await this.gitignoreMatcher.match(itemPath, isDirectory)
+      : undefined;
+
+    // The same pipeline as a summary run decides, so the answer matches
+    // the output even where the rules above are ambiguous
+    const fileTracker = new FileTracker(
+      this.rules,
+      this.gitignoreMatcher,
+      this.gitChangeSources
+    );
+    const files = await fileTracker.expandTrackedItems(
+      await fileTracker.getTrackedItems(workspaceRoots)
+    );
+    const isIncluded = files.some((file) =>
+      PathUtils.isSubdirectory(itemPath, file.path)
+    );
+
+    return {
+      relativePath,
+      isDirectory,
+      decision: isIncluded
+        ? "included"
+        : excludedBy
+          ? "excluded"
+          : gitignoredBy?.ignored
+            ? "gitignored"
+            : "not-tracked",
+      trackedBy,
+      excludedBy,
+      gitignoredBy: gitignoredBy?.ignored ? gitignoredBy : undefined,
+      collapsedBy: this.findCollapsingRule(levels, isDirectory),
+      matches,
+    };
+  }
+
+  /**
+   * Every rule matching a level, at the outermost level it matches. A rule
+   * matching a folder also matches everything inside it by prefix, which
+   * adds nothing.
+   */
+  private collectMatches(levels: string[]): RuleExplanation[] {
+    const matches: RuleExplanation[] = [];
+    levels.forEach((level, index) => {
+      for (const match of this.ruleMatcher.getMatches(level)) {
+        if (!matches.some((existing) => existing.rule === match.rule)) {
+          matches.push(
+            PathExplainer.toExplanation(match, level, index, levels.length)
+          );
+        }
+      }
+    });
+
+    const order = this.ruleMatcher.getRules().map((rule) => rule.rule);
+    return matches.sort(
+      (a, b) => order.indexOf(a.rule) - order.indexOf(b.rule)
+    );
+  }
+
+  /**
+   * The last include rule tracking the item: any pattern matching the item
+   * itself, or a literal folder containing it. Globs only ever track files.
+   */
+  private static findTrackingRule(
+    matches: RuleExplanation[]
+  ): RuleExplanation | undefined {
+    const tracking = matches.filter(
+      (match) =>
+        match.action === "include" &&
+        !(
+          match.isAncestor &&
+          ExclusionMatcher.isGlobPattern(
+            ExclusionMatcher.parseRule(match.rule)?.pattern ?? ""
+          )
+        )
+    );
+    return (
+      tracking.filter((match) => !match.isAncestor).pop() ?? tracking.pop()
+    );
+  }
+
+  /**
+   * The exclude rule deciding the first excluded level at or below the
+   * tracked level, the way folders are walked during a summary
+   */
+  private findExcludingRule(
+    levels: string[],
+    fromIndex: number
+  ): RuleExplanation | undefined {
+    for (let index = Math.max(fromIndex, 0); index < levels.length; index++) {
+      const decisive = this.ruleMatcher.getDecisiveMatch(levels[index]);
+      if (decisive?.action === "exclude") {
+        return PathExplainer.toExplanation(
+          decisive,
+          decisive.matchedPath,
+          levels.indexOf(decisive.matchedPath),
+          levels.length
+        );
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * The rule collapsing the outermost collapsed folder, which hides
+   * everything below it in the structure
+   */
+  private findCollapsingRule(
+    levels: string[],
+    isDirectory: boolean
+  ): RuleExplanation | undefined {
+    const folderCount = isDirectory ? levels.length : levels.length - 1;
+    for (let index = 0; index < folderCount; index++) {
+      const decisive = this.ruleMatcher.getDecisiveMatch(levels[index], true);
+      if (decisive && decisive.action !== "include") {
+        return PathExplainer.toExplanation(
+          decisive,
+          decisive.matchedPath,
+          levels.indexOf(decisive.matchedPath),
+          levels.length
+        );
+      }
+    }
+    return undefined;
+  }
+
+  private static toExplanation(
+    match: RuleMatch,
+    level: string,
+    index: number,
+    levelCount: number
+  ): RuleExplanation {
+    return { ...match, matchedPath: level, isAncestor: index < levelCount - 1 };
+  }
+}
@@ -0,0 +1,217 @@
+import { REDACTION, SECRET_PATTERNS } from "../constants";
+import {
+  RedactionFinding,
+  RedactionMode,
+  RedactionOptions,
+  SecretDetector,
+} from "../models/types";
+
+interface Detector {
+  name: SecretDetector | "custom";
+  patterns: readonly RegExp[];
+}
+
+interface SecretMatch {
+  detector: SecretDetector | "custom";
+  start: number;
+  end: number;
+}
+
+/**
+ * Finds secrets in file contents and replaces them with placeholders such
+ * as "[REDACTED:aws-access-key:1]". A secret gets the same placeholder
+ * wherever it appears during a run.
+ */
+export class SecretRedactor {
+  private detectors: Detector[];
+  private placeholders: Map<string, string> = new Map();
+  private counters: Map<string, number> = new Map();
+  private findings: RedactionFinding[] = [];
+
+  /**
+   * Throws when one of the user patterns is not a valid regex, so a typo
+   * never lets secrets through unnoticed. Unknown detector names are
+   * skipped with a warning.
+   */
+  constructor(private options: RedactionOptions) {
+    this.detectors = [
+      ...SecretRedactor.getKnownDetectors(options.detectors).map((name) => ({
+        name,
+        patterns: SECRET_PATTERNS[name],
+      })),
+      ...options.patterns.map((pattern) => ({
+        name: "custom" as const,
+        patterns: [SecretRedactor.compilePattern(pattern)],
+      })),
+    ];
+  }
+
+  public getMode(): RedactionMode {
+    return this.options.mode;
+  }
+
+  /**
+   * All findings of this run, in the order they were found
+   */
+  public getFindings(): RedactionFinding[] {
+    return this.findings;
+  }
+
+  /**
+   * Replace the secrets in text. Findings are recorded against relativePath
+   * and returned as well.
+   */
+  public redact(
+    text: string,
+    relativePath: string
+  ): { text: string; findings: RedactionFinding[] } {
+    const matches = this.findMatches(text);
+    if (matches.length === 0) {
+      return { text, findings: [] };
+    }
+
+    const findings: RedactionFinding[] = [];
+    let result = "";
+    let lastEnd = 0;
+    let line = 1;
+    for (const match of matches) {
+      const preceding = text.slice(lastEnd, match.start);
+      line += preceding.split("\n").length - 1;
+
+      const placeholder = this.getPlaceholder(
+        match.detector,
+        text.slice(match.start, match.end)
+      );
+      findings.push({
+        relativePath,
+        line,
+        detector: match.detector,
+        placeholder,
+      });
+
+      result += preceding + placeholder;
+      line += text.slice(match.start, match.end).split("\n").length - 1;
+      lastEnd = match.end;
+    }
+    result += text.slice(lastEnd);
+
+    this.findings.push(...findings);
+    return { text: result, findings };
+  }
+
+  /**
+   * Describe findings, e.g. "3 secrets in 2 files"
+   */
+  public static formatFindings(findings: RedactionFinding[]): string {
+    const fileCount = new Set(findings.map((finding) => finding.relativePath))
+      .size;
+    return (
+      `${findings.length} ${findings.length === 1 ? "secret" : "secrets"} ` +
+      `in ${fileCount} ${fileCount === 1 ? "file" : "files"}`
+    );
+  }
+
+  /**
+   * Error thrown in block mode, naming where the first secret was found
+   */
+  public static createBlockedError(finding: RedactionFinding): Error {
+    return new Error(
+      `Secret found in ${finding.relativePath} (line ${finding.line}, ` +
+        `${finding.detector}). No file content was written; remove the ` +
+        `secret or set redaction to "redact" to replace it with a placeholder.`
+    );
+  }
+
+  /**
+   * Non-overlapping matches of all detectors, ordered by position. Where
+   * matches overlap the one starting first wins, then the longest.
+   */
+  private findMatches(text: string): SecretMatch[] {
+    const candidates: SecretMatch[] = [];
+    for (const detector of this.detectors) {
+      for (const pattern of detector.patterns) {
+        for (const match of text.matchAll(pattern)) {
+          // With the "d" flag, indices hold the span of every group
+          const [start, end] = match.indices?.groups?.secret ??
+            match.indices?.[0] ?? [match.index ?? 0, 0];
+          if (
+            end <= start ||
+            (detector.name === "high-entropy" &&
+              !SecretRedactor.isHighEntropy(text.slice(start, end)))
+          ) {
+            continue;
+          }
+          candidates.push({ detector: detector.name, start, end });
+        }
+      }
+    }
+
+    candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+    const matches: SecretMatch[] = [];
+    for (const candidate of candidates) {
+      const previous = matches[matches.length - 1];
+      if (!previous || candidate.start >= previous.end) {
+        matches.push(candidate);
+      }
+    }
+    return matches;
+  }
+
+  private getPlaceholder(
+    detector: SecretDetector | "custom",
+    secret: string
+  ): string {
+    const key = `${detector}\0${secret}`;
+    let placeholder = this.placeholders.get(key);
+    if (!placeholder) {
+      const count = (this.counters.get(detector) ?? 0) + 1;
+      this.counters.set(detector, count);
+      placeholder = `[${REDACTION.PLACEHOLDER_PREFIX}:${detector}:${count}]`;
+      this.placeholders.set(key, placeholder);
+    }
+    return placeholder;
+  }
+
+  /**
+   * Detector names from the settings that have patterns
+   */
+  private static getKnownDetectors(names: string[]): SecretDetector[] {
+    return names.filter((name): name is SecretDetector => {
+      if (Object.hasOwn(SECRET_PATTERNS, name)) {
+        return true;
+      }
+      console.warn(`Unknown secret detector "${name}" ignored`);
+      return false;
+    });
+  }
+
+  /**
+   * Random-looking values mix letters and digits and use many different
+   * characters; identifiers and words do not
+   */
+  private static isHighEntropy(value: string): boolean {
+    if (!/[0-9]/.test(value) || !/[A-Za-z]/.test(value)) {
+      return false;
+    }
+
+    const counts = new Map<string, number>();
+    for (const character of value) {
+      counts.set(character, (counts.get(character) ?? 0) + 1);
+    }
+    let entropy = 0;
+    for (const count of counts.values()) {
+      const probability = count / value.length;
+      entropy -= probability * Math.log2(probability);
+    }
+    return entropy >= REDACTION.MIN_ENTROPY;
+  }
+
+  private static compilePattern(pattern: string): RegExp {
+    try {
+      return new RegExp(pattern, "dgm");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid redaction pattern "${pattern}": ${message}`);
+    }
+  }
+}
@@ -0,0 +1,295 @@
+import {
+  STRUCTURE_CONTEXT,
+  STRUCTURE_FILES,
+  STRUCTURE_LIMITS,
+  TREE_CHARACTERS,
+} from "../constants";
+import { FolderNode, StructureFormat, TruncatedEntries } from "../models/types";
+
+type TreeCharacters = (typeof TREE_CHARACTERS)[keyof typeof TREE_CHARACTERS];
+
+// Plain YAML scalars that would be read as something other than a string
+const YAML_RESERVED =
+  /^(?:~|null|true|false|yes|no|on|off|[-+]?(?:\d[\d_]*(?:\.\d*)?|\.\d+)(?:e[-+]?\d+)?|0[xo][\da-f]+|\.inf|\.nan)$/i;
+
+/**
+ * Renders the project structure in the chosen structure format. Collapsed
+ * folders are shown with the number of their direct children, entries left
+ * out by the structure limits with a summary line.
+ */
+export class StructureRenderer {
+  private format: StructureFormat;
+
+  constructor(format: StructureFormat = "tree") {
+    this.format = format;
+  }
+
+  public getFormat(): StructureFormat {
+    return this.format;
+  }
+
+  public getFileName(): string {
+    return STRUCTURE_FILES[this.format];
+  }
+
+  /**
+   * Code block language of the rendered structure, for output formats
+   * that fence it
+   */
+  public getLanguage(): string {
+    switch (this.format) {
+      case "markdown":
+        return "markdown";
+      case "yaml":
+        return "yaml";
+      case "json":
+        return "json";
+      default:
+        return "text";
+    }
+  }
+
+  public render(structure: FolderNode): string {
+    switch (this.format) {
+      case "tree":
+        return StructureRenderer.renderTree(structure, TREE_CHARACTERS.UNICODE);
+      case "tree-ascii":
+        return StructureRenderer.renderTree(structure, TREE_CHARACTERS.ASCII);
+      case "markdown":
+        return StructureRenderer.renderMarkdown(structure);
+      case "yaml":
+        return StructureRenderer.renderYaml(structure);
+      default:
+        // Wrap the structure with context information
+        return JSON.stringify(
+          {
+            context: STRUCTURE_CONTEXT,
+            folder_structure: StructureRenderer.toCompactJson(structure),
+          },
+          null,
+          2
+        );
+    }
+  }
+
+  /**
+   * Children sorted with directories first, then alphabetically
+   */
+  private static getSortedChildren(
+    node: FolderNode
+  ): [string, FolderNode | null][] {
+    return Object.entries(node.children).sort(
+      ([aKey, aChild], [bKey, bChild]) => {
+        // Directories (non-null) come first
+        if (aChild !== null && bChild === null) {
+          return -1;
+        }
+        if (aChild === null && bChild !== null) {
+          return 1;
+        }
+
+        // Then sort alphabetically
+        return aKey.localeCompare(bKey);
+      }
+    );
+  }
+
+  /**
+   * e.g. "collapsed, 12 items"
+   */
+  private static describeCollapsed(node: FolderNode): string {
+    const count = node.childCount ?? 0;
+    return `collapsed, ${count} ${count === 1 ? "item" : "items"}`;
+  }
+
+  /**
+   * e.g. "… and 4800 more files (types: .sql×4800, .md×3)"
+   */
+  private static describeTruncated(truncated: TruncatedEntries): string {
+    const parts: string[] = [];
+    if (truncated.files > 0) {
+      const types = Object.entries(truncated.fileTypes).sort(
+        ([aType, aCount], [bType, bCount]) =>
+          bCount - aCount || aType.localeCompare(bType)
+      );
+      const listedTypes = types
+        .slice(0, STRUCTURE_LIMITS.MAX_LISTED_TYPES)
+        .map(([type, count]) => `${type}×${count}`);
+      if (types.length > STRUCTURE_LIMITS.MAX_LISTED_TYPES) {
+        listedTypes.push("…");
+      }
+      parts.push(
+        `${truncated.files} more ${truncated.files === 1 ? "file" : "files"} ` +
+          `(types: ${listedTypes.join(", ")})`
+      );
+    }
+    if (truncated.folders > 0) {
+      parts.push(
+        `${truncated.folders} more ` +
+          (truncated.folders === 1 ? "folder" : "folders")
+      );
+    }
+    return `… and ${parts.join(" and ")}`;
+  }
+
+  /**
+   * Files are 0, collapsed folders the number of their direct children and
+   * other folders nested objects, ending with a summary of the entries
+   * left out
+   */
+  private static toCompactJson(node: FolderNode): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of StructureRenderer.getSortedChildren(node)) {
+      if (child === null) {
+        result[key] = 0;
+      } else if (child.isIgnored) {
+        result[key] = child.childCount ?? 0;
+      } else {
+        result[key] = StructureRenderer.toCompactJson(child);
+      }
+    }
+    if (node.truncated) {
+      result[STRUCTURE_LIMITS.TRUNCATION_KEY] =
+        StructureRenderer.describeTruncated(node.truncated);
+    }
+    return result;
+  }
+
+  /**
+   * Text tree in the style of the `tree` command
+   */
+  private static renderTree(
+    structure: FolderNode,
+    characters: TreeCharacters
+  ): string {
+    const lines = [`${structure.name}/`];
+
+    const addChildren = (node: FolderNode, prefix: string) => {
+      const children = StructureRenderer.getSortedChildren(node);
+      children.forEach(([name, child], index) => {
+        const isLast = index === children.length - 1 && !node.truncated;
+        lines.push(
+          prefix +
+            (isLast ? characters.LAST : characters.BRANCH) +
+            (child === null
+              ? name
+              : child.isIgnored
+                ? `${name}/ (${StructureRenderer.describeCollapsed(child)})`
+                : `${name}/`)
+        );
+        if (child && !child.isIgnored) {
+          addChildren(
+            child,
+            prefix + (isLast ? characters.SPACE : characters.PIPE)
+          );
+        }
+      });
+      if (node.truncated) {
+        lines.push(
+          prefix +
+            characters.LAST +
+            StructureRenderer.describeTruncated(node.truncated)
+        );
+      }
+    };
+
+    addChildren(structure, "");
+    return lines.join("\n");
+  }
+
+  /**
+   * Nested Markdown list with names as code spans, so characters such as
+   * "_" and "*" are shown as they are
+   */
+  private static renderMarkdown(structure: FolderNode): string {
+    const codeSpan = (name: string) =>
+      name.includes("`") ? `\`\` ${name} \`\`` : `\`${name}\``;
+    const lines = [`- ${codeSpan(`${structure.name}/`)}`];
+
+    const addChildren = (node: FolderNode, indent: string) => {
+      for (const [name, child] of StructureRenderer.getSortedChildren(node)) {
+        if (child === null) {
+          lines.push(`${indent}- ${codeSpan(name)}`);
+        } else if (child.isIgnored) {
+          lines.push(
+            `${indent}- ${codeSpan(`${name}/`)} ` +
+              `*(${StructureRenderer.describeCollapsed(child)})*`
+          );
+        } else {
+          lines.push(`${indent}- ${codeSpan(`${name}/`)}`);
+          addChildren(child, indent + "  ");
+        }
+      }
+      if (node.truncated) {
+        lines.push(
+          `${indent}- *${StructureRenderer.describeTruncated(node.truncated)}*`
+        );
+      }
+    };
+
+    addChildren(structure, "  ");
+    return lines.join("\n");
+  }
+
+  /**
+   * Folders are single-key mappings holding a sequence of their children,
+   * files are plain entries of the sequence
+   */
+  private static renderYaml(structure: FolderNode): string {
+    const rootKey = StructureRenderer.toYamlScalar(`${structure.name}/`);
+    const isEmpty = (node: FolderNode) =>
+      Object.keys(node.children).length === 0 && !node.truncated;
+    if (isEmpty(structure)) {
+      return `${rootKey}: []`;
+    }
+    const lines = [`${rootKey}:`];
+
+    const addChildren = (node: FolderNode, indent: number) => {
+      const prefix = " ".repeat(indent) + "- ";
+      for (const [name, child] of StructureRenderer.getSortedChildren(node)) {
+        if (child === null) {
+          lines.push(prefix + StructureRenderer.toYamlScalar(name));
+          continue;
+        }
+
+        const key = StructureRenderer.toYamlScalar(`${name}/`);
+        if (child.isIgnored) {
+          lines.push(
+            `${prefix}${key}: ` +
+              StructureRenderer.toYamlScalar(
+                StructureRenderer.describeCollapsed(child)
+              )
+          );
+        } else if (isEmpty(child)) {
+          lines.push(`${prefix}${key}: []`);
+        } else {
+          lines.push(`${prefix}${key}:`);
+          // Nested entries line up past the "- " of their folder
+          addChildren(child, indent + 4);
+        }
+      }
+      if (node.truncated) {
+        lines.push(
+          prefix +
+            StructureRenderer.toYamlScalar(
+              StructureRenderer.describeTruncated(node.truncated)
+            )
+        );
+      }
+    };
+
+    addChildren(structure, 2);
+    return lines.join("\n");
+  }
+
+  /**
+   * Plain scalar when that reads back as the same string, otherwise a
+   * double-quoted one (JSON strings are valid YAML)
+   */
+  private static toYamlScalar(value: string): string {
+    return /^[\w.][\w./-]*(?: [\w./-]+)*$/.test(value) &&
+      !YAML_RESERVED.test(value)
+      ? value
+      : JSON.stringify(value);
+  }
+}
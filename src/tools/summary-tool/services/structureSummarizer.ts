@@ -1,165 +1,306 @@
 import * as fs from "fs";
 import * as path from "path";
-import { STRUCTURE_CONTEXT } from "../constants";
+import { STRUCTURE_LIMITS } from "../constants";
 import {
+  CachedDirectoryEntry,
+  CancellationSignal,
   FolderNode,
   ProgressReporter,
+  StructureFormat,
+  StructureLimits,
   StructureSummaryOptions,
+  TruncatedEntries,
 } from "../models/types";
 import { PathUtils } from "../utils/pathUtils";
+import { ContentCache } from "./contentCache";
 import { ExclusionMatcher } from "./exclusionMatcher";
+import { GitignoreMatcher } from "./gitignoreMatcher";
+import { StructureRenderer } from "./structureRenderer";
 
 export class StructureSummarizer {
   private exclusionMatcher: ExclusionMatcher;
+  private gitignoreMatcher: GitignoreMatcher | null;
   private progress: ProgressReporter | null = null;
-
-  constructor(ignoreStructurePatterns: string[]) {
-    this.exclusionMatcher = ExclusionMatcher.createForStructureIgnoring(
-      ignoreStructurePatterns
-    );
+  private progressShare: number = 0;
+  private cancellation: CancellationSignal | null = null;
+  private limits: StructureLimits = { maxDepth: 0, maxChildren: 0 };
+  private limitOverrides = new Map<string, Partial<StructureLimits>>();
+  private overrideMatcher: ExclusionMatcher = new ExclusionMatcher([]);
+
+  constructor(
+    rules: string[],
+    gitignoreMatcher: GitignoreMatcher | null = null
+  ) {
+    this.exclusionMatcher = new ExclusionMatcher(rules);
+    this.gitignoreMatcher = gitignoreMatcher;
   }
 
-  public setProgress(progress: ProgressReporter): void {
+  /**
+   * share: percentage of the progress bar the walk fills, spread over the
+   * top-level entries of the workspace folders
+   */
+  public setProgress(progress: ProgressReporter, share: number = 0): void {
     this.progress = progress;
+    this.progressShare = share;
+  }
+
+  /**
+   * Once cancellation is requested the walk stops and the structure built
+   * so far is returned
+   */
+  public setCancellation(cancellation: CancellationSignal): void {
+    this.cancellation = cancellation;
   }
 
   public async generateStructure(
     options: StructureSummaryOptions
   ): Promise<FolderNode> {
-    const { workspacePath } = options;
+    const { workspaceRoots } = options;
+    this.limits = options.limits ?? { maxDepth: 0, maxChildren: 0 };
+    // Overrides match folders the way rules do, including their subfolders
+    this.limitOverrides = new Map(
+      Object.entries(options.limitOverrides ?? {}).map(([pattern, limits]) => [
+        ExclusionMatcher.formatRule("include", pattern).trim(),
+        limits,
+      ])
+    );
+    this.overrideMatcher = new ExclusionMatcher([
+      ...this.limitOverrides.keys(),
+    ]);
 
-    if (!PathUtils.exists(workspacePath)) {
-      throw new Error(`Workspace path does not exist: ${workspacePath}`);
+    for (const root of workspaceRoots) {
+      if (!PathUtils.exists(root.path)) {
+        throw new Error(`Workspace path does not exist: ${root.path}`);
+      }
     }
 
     this.progress?.report({ message: "Analyzing project structure..." });
 
+    const folderNodes: FolderNode[] = [];
+    for (const root of workspaceRoots) {
+      const folderNode: FolderNode = {
+        name: workspaceRoots.length > 1 ? root.name : path.basename(root.path),
+        path: root.path,
+        isFile: false,
+        children: {},
+      };
+
+      await this.buildStructureRecursive(
+        root.path,
+        folderNode,
+        0,
+        this.progressShare / workspaceRoots.length
+      );
+      folderNodes.push(folderNode);
+    }
+
+    this.progress?.report({ message: "Structure analysis complete!" });
+
+    if (folderNodes.length === 1) {
+      return folderNodes[0];
+    }
+
+    // Multi-root workspaces get one top-level entry per folder
     const rootNode: FolderNode = {
-      name: path.basename(workspacePath),
-      path: workspacePath,
+      name: "workspace",
+      path: "",
       isFile: false,
       children: {},
     };
-
-    await this.buildStructureRecursive(workspacePath, rootNode, 0);
-
-    this.progress?.report({ message: "Structure analysis complete!" });
+    for (const folderNode of folderNodes) {
+      rootNode.children[folderNode.name] = folderNode;
+    }
 
     return rootNode;
   }
 
+  /**
+   * progressShare is reported as the entries of this directory finish.
+   * Entries past the limits of the directory are left out and summarized
+   * on its node.
+   */
   private async buildStructureRecursive(
     currentPath: string,
     parentNode: FolderNode,
-    depth: number
+    depth: number,
+    progressShare: number = 0
   ): Promise<void> {
     try {
-      const items = await fs.promises.readdir(currentPath);
+      // Unchanged directories are listed from the cache
+      const entries = StructureSummarizer.sortEntries(
+        await ContentCache.getInstance().readDirectory(currentPath)
+      );
+
+      const { maxDepth, maxChildren } = this.getLimits(currentPath);
+      const listedLimit =
+        maxDepth > 0 && depth >= maxDepth
+          ? 0
+          : maxChildren > 0
+            ? maxChildren
+            : Infinity;
+      const leftOut: CachedDirectoryEntry[] = [];
+      let listed = 0;
+
+      for (const entry of entries) {
+        if (this.cancellation?.isCancellationRequested) {
+          return;
+        }
 
-      for (const item of items) {
+        const item = entry.name;
         const itemPath = path.join(currentPath, item);
         const relativePath = PathUtils.getRelativePathFromWorkspace(itemPath);
 
-        // Check if this item should be excluded from structure
-        const exclusionResult =
-          this.exclusionMatcher.shouldExclude(relativePath);
-
-        const stats = await PathUtils.getFileStats(itemPath);
-        if (!stats) {
-          continue; // Skip if can't get stats
-        }
-
-        if (stats.isDirectory()) {
+        // Gitignored folders are collapsed, gitignored files are hidden
+        const isGitignored =
+          (await this.gitignoreMatcher?.isIgnored(
+            itemPath,
+            entry.isDirectory
+          )) ?? false;
+        const isShown = entry.isDirectory || (entry.isFile && !isGitignored);
+
+        if (isShown && listed >= listedLimit) {
+          leftOut.push(entry);
+        } else if (entry.isDirectory) {
+          // Check if this item should be collapsed in the structure
+          const exclusionResult =
+            this.exclusionMatcher.shouldCollapse(relativePath);
+          const isIgnored = exclusionResult.shouldExclude || isGitignored;
           const childNode: FolderNode = {
             name: item,
             path: itemPath,
             isFile: false,
             children: {},
-            isIgnored: exclusionResult.shouldExclude,
+            isIgnored,
           };
 
           parentNode.children[item] = childNode;
+          listed++;
 
           // If the directory is ignored, don't recurse into it
-          if (!exclusionResult.shouldExclude) {
+          if (isIgnored) {
+            childNode.childCount = await this.countDirectItems(itemPath);
+          } else {
             await this.buildStructureRecursive(itemPath, childNode, depth + 1);
           }
-        } else if (stats.isFile()) {
+        } else if (isShown) {
           // Files are always included in structure (null indicates a file)
           parentNode.children[item] = null;
+          listed++;
+        }
+
+        if (progressShare > 0) {
+          this.progress?.report({ increment: progressShare / entries.length });
         }
       }
+
+      if (leftOut.length > 0) {
+        parentNode.truncated = StructureSummarizer.summarizeEntries(leftOut);
+      }
     } catch (error) {
       console.error(`Error reading directory ${currentPath}:`, error);
       // Continue processing other directories instead of failing completely
     }
   }
 
-  public async generateStructureText(structure: FolderNode): Promise<string> {
-    const compactJson = await this.generateCompactJson(structure);
-
-    // Wrap the structure with context information
-    const wrappedStructure = {
-      context: STRUCTURE_CONTEXT,
-      folder_structure: compactJson,
+  /**
+   * The global limits, replaced by those of the last override matching
+   * the directory
+   */
+  private getLimits(directoryPath: string): StructureLimits {
+    const relativePath = PathUtils.getRelativePathFromWorkspace(directoryPath);
+    const match = relativePath
+      ? this.overrideMatcher.getMatches(relativePath).pop()
+      : undefined;
+    const override = match ? this.limitOverrides.get(match.rule) : undefined;
+    return {
+      maxDepth: override?.maxDepth ?? this.limits.maxDepth,
+      maxChildren: override?.maxChildren ?? this.limits.maxChildren,
     };
-
-    return JSON.stringify(wrappedStructure, null, 2);
   }
 
-  private async generateCompactJson(
-    node: FolderNode
-  ): Promise<Record<string, any>> {
-    const result: Record<string, any> = {};
-
-    // Sort children: directories first, then files, then alphabetically
-    const sortedChildren = Object.entries(node.children).sort(
-      ([aKey, aChild], [bKey, bChild]) => {
-        // Directories (non-null) come first
-        if (aChild !== null && bChild === null) {
-          return -1;
-        }
-        if (aChild === null && bChild !== null) {
-          return 1;
-        }
-
-        // Then sort alphabetically
-        return aKey.localeCompare(bKey);
-      }
+  /**
+   * Directories first, then alphabetically, the order the structure is
+   * rendered in, so the entries listed are the first ones shown
+   */
+  private static sortEntries(
+    entries: CachedDirectoryEntry[]
+  ): CachedDirectoryEntry[] {
+    return [...entries].sort((a, b) =>
+      a.isDirectory !== b.isDirectory
+        ? a.isDirectory
+          ? -1
+          : 1
+        : a.name.localeCompare(b.name)
     );
+  }
 
-    for (const [key, child] of sortedChildren) {
-      if (child === null) {
-        // It's a file
-        result[key] = 0;
+  private static summarizeEntries(
+    entries: CachedDirectoryEntry[]
+  ): TruncatedEntries {
+    const summary: TruncatedEntries = { files: 0, folders: 0, fileTypes: {} };
+    for (const entry of entries) {
+      if (entry.isDirectory) {
+        summary.folders++;
       } else {
-        // It's a directory
-        if (child.isIgnored) {
-          // Show count of direct items in ignored directory
-          const count = await PathUtils.countDirectItems(child.path);
-          result[key] = count;
-        } else {
-          // Recurse into non-ignored directory
-          result[key] = await this.generateCompactJson(child);
-        }
+        const extension =
+          path.extname(entry.name).toLowerCase() ||
+          STRUCTURE_LIMITS.NO_EXTENSION;
+        summary.files++;
+        summary.fileTypes[extension] = (summary.fileTypes[extension] ?? 0) + 1;
       }
     }
+    return summary;
+  }
 
-    return result;
+  public async generateStructureText(
+    structure: FolderNode,
+    format: StructureFormat = "tree"
+  ): Promise<string> {
+    return new StructureRenderer(format).render(structure);
+  }
+
+  private async countDirectItems(directoryPath: string): Promise<number> {
+    try {
+      const entries =
+        await ContentCache.getInstance().readDirectory(directoryPath);
+      return entries.length;
+    } catch (error) {
+      console.error(
+        `Error counting items in directory ${directoryPath}:`,
+        error
+      );
+      return 0;
+    }
   }
 
   public async saveStructureToFile(
     structure: FolderNode,
-    filePath: string
+    filePath: string,
+    format: StructureFormat = "tree"
   ): Promise<void> {
-    // Always generate compact JSON format now
-    const content = await this.generateStructureText(structure);
+    const content = await this.generateStructureText(structure, format);
 
     // Ensure target directory exists
     const targetDir = PathUtils.getDirName(filePath);
     PathUtils.ensureDirectoryExists(targetDir);
 
-    await fs.promises.writeFile(filePath, content, "utf8");
+    // The file of another format written by an earlier run would sit
+    // there stale; files of the same names made by hand are left alone
+    const cache = ContentCache.getInstance();
+    const fileName = path.basename(filePath);
+    const previousFile = cache.getStructureFile(targetDir);
+    if (previousFile && previousFile !== fileName) {
+      await fs.promises.rm(path.join(targetDir, previousFile), { force: true });
+    }
+
+    // Leave an unchanged file alone so watchers and editors are not disturbed
+    const existingContent = await fs.promises
+      .readFile(filePath, "utf8")
+      .catch(() => null);
+    if (existingContent !== content) {
+      await fs.promises.writeFile(filePath, content, "utf8");
+    }
+    cache.setStructureFile(targetDir, fileName);
   }
 
   public countNodes(structure: FolderNode): {
@@ -224,8 +365,7 @@ export class StructureSummarizer {
     return ignored;
   }
 
-  public updateIgnorePatterns(newPatterns: string[]): void {
-    this.exclusionMatcher =
-      ExclusionMatcher.createForStructureIgnoring(newPatterns);
+  public updateRules(rules: string[]): void {
+    this.exclusionMatcher = new ExclusionMatcher(rules);
   }
 }
@@ -0,0 +1,84 @@
+import { countTokens } from "gpt-tokenizer/encoding/cl100k_base";
+import { TOKENIZER } from "../constants";
+import { TokenCount, TokenCountMethod, TokenizerMethod } from "../models/types";
+
+export class TokenCounter {
+  private method: TokenizerMethod;
+  private usedMethods = new Set<TokenizerMethod>();
+
+  constructor(method: TokenizerMethod = "cl100k") {
+    this.method = method;
+  }
+
+  public count(text: string): number {
+    return this.countWithMethod(text).tokens;
+  }
+
+  /**
+   * Count tokens in text, falling back to the estimator if the BPE fails
+   * or the text is too large to encode quickly
+   */
+  public countWithMethod(text: string): TokenCount {
+    if (
+      this.method === "cl100k" &&
+      text.length <= TOKENIZER.MAX_BPE_CHARACTERS
+    ) {
+      try {
+        return this.recordMethod({
+          tokens: countTokens(text, { allowedSpecial: "all" }),
+          method: "cl100k",
+        });
+      } catch (error) {
+        console.warn(`BPE tokenization failed, using estimate: ${error}`);
+      }
+    }
+
+    return this.recordMethod({
+      tokens: TokenCounter.estimate(text),
+      method: "estimate",
+    });
+  }
+
+  /**
+   * Note the method behind a count, also for counts taken from a cache
+   */
+  public recordMethod(counted: TokenCount): TokenCount {
+    this.usedMethods.add(counted.method);
+    return counted;
+  }
+
+  public getMethod(): TokenizerMethod {
+    return this.method;
+  }
+
+  /**
+   * The method behind the counts so far: "mixed" when only some of them
+   * fell back to the estimate, the configured method before any count
+   */
+  public getUsedMethod(): TokenCountMethod {
+    if (this.usedMethods.size > 1) {
+      return "mixed";
+    }
+    return [...this.usedMethods][0] ?? this.method;
+  }
+
+  /**
+   * Fast approximation based on average characters per token
+   */
+  public static estimate(text: string): number {
+    return Math.ceil(text.length / TOKENIZER.CHARS_PER_TOKEN);
+  }
+
+  /**
+   * Format token count for display (e.g. 950, 12.3k, 1.2M)
+   */
+  public static formatTokenCount(tokens: number): string {
+    if (tokens < 1000) {
+      return `${tokens}`;
+    }
+    if (tokens < 1000000) {
+      return `${(tokens / 1000).toFixed(1)}k`;
+    }
+    return `${(tokens / 1000000).toFixed(1)}M`;
+  }
+}
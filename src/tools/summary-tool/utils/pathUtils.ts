@@ -1,32 +1,118 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as vscode from "vscode";
+import { WORKSPACE_FOLDER_SEPARATOR } from "../constants";
+import { WorkspaceRoot } from "../models/types";
 
 export class PathUtils {
   /**
-   * Get relative path from workspace root
+   * Get all workspace folders as roots
+   */
+  public static getWorkspaceRoots(): WorkspaceRoot[] {
+    const workspaceFolders = vscode.workspace.workspaceFolders || [];
+    return workspaceFolders.map((folder) => ({
+      name: folder.name,
+      path: folder.uri.fsPath,
+    }));
+  }
+
+  /**
+   * Check if more than one folder is open
+   */
+  public static isMultiRoot(): boolean {
+    return this.getWorkspaceRoots().length > 1;
+  }
+
+  /**
+   * Get the workspace folder containing a path (the deepest one if nested)
+   */
+  public static getWorkspaceRootForPath(
+    absolutePath: string
+  ): WorkspaceRoot | undefined {
+    return this.getWorkspaceRoots()
+      .filter(
+        (root) =>
+          root.path === absolutePath ||
+          this.isSubdirectory(root.path, absolutePath)
+      )
+      .sort((a, b) => b.path.length - a.path.length)[0];
+  }
+
+  /**
+   * Split a "folder:relative/path" into its workspace folder and path.
+   * Absolute paths (including Windows drive letters) have no folder.
+   */
+  public static parseQualifiedPath(qualifiedPath: string): {
+    folder?: string;
+    path: string;
+  } {
+    if (/^[a-zA-Z]:[\\/]/.test(qualifiedPath)) {
+      return { path: qualifiedPath };
+    }
+
+    const separatorIndex = qualifiedPath.indexOf(WORKSPACE_FOLDER_SEPARATOR);
+    if (separatorIndex <= 0 || /[\\/]/.test(qualifiedPath[0])) {
+      return { path: qualifiedPath };
+    }
+
+    const folder = qualifiedPath.slice(0, separatorIndex);
+    if (/[\\/*?[\]{}]/.test(folder)) {
+      return { path: qualifiedPath };
+    }
+
+    return {
+      folder,
+      path: qualifiedPath.slice(separatorIndex + 1),
+    };
+  }
+
+  /**
+   * Prefix a folder relative path with its workspace folder name
+   */
+  public static toQualifiedPath(
+    folder: string | undefined,
+    relativePath: string
+  ): string {
+    return folder
+      ? `${folder}${WORKSPACE_FOLDER_SEPARATOR}${relativePath}`
+      : relativePath;
+  }
+
+  /**
+   * Get relative path from workspace root. In multi-root workspaces the
+   * path is prefixed with its folder name, e.g. "backend:src/app.ts".
    */
   public static getRelativePathFromWorkspace(absolutePath: string): string {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
+    const workspaceRoots = this.getWorkspaceRoots();
+    if (workspaceRoots.length === 0) {
       return absolutePath;
     }
 
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
-    return path.relative(workspaceRoot, absolutePath);
+    const root = this.getWorkspaceRootForPath(absolutePath);
+    if (!root) {
+      return path.relative(workspaceRoots[0].path, absolutePath);
+    }
+
+    const relativePath = path.relative(root.path, absolutePath);
+    return workspaceRoots.length > 1
+      ? this.toQualifiedPath(root.name, relativePath)
+      : relativePath;
   }
 
   /**
-   * Get absolute path from workspace relative path
+   * Get absolute path from workspace relative path, which may be
+   * prefixed with a workspace folder name
    */
   public static getAbsolutePathFromWorkspace(relativePath: string): string {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
+    const workspaceRoots = this.getWorkspaceRoots();
+    if (workspaceRoots.length === 0) {
       return relativePath;
     }
 
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
-    return path.resolve(workspaceRoot, relativePath);
+    const { folder, path: folderPath } = this.parseQualifiedPath(relativePath);
+    const root =
+      workspaceRoots.find((item) => item.name === folder) ?? workspaceRoots[0];
+    return path.resolve(root.path, folder ? folderPath : relativePath);
   }
 
   /**
@@ -162,22 +248,20 @@ export class PathUtils {
   }
 
   /**
-   * Get workspace root path
+   * Get workspace root path, the root containing filePath if given
    */
-  public static getWorkspaceRoot(): string | undefined {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    return workspaceFolders?.[0]?.uri.fsPath;
+  public static getWorkspaceRoot(filePath?: string): string | undefined {
+    if (filePath) {
+      return this.getWorkspaceRootForPath(filePath)?.path;
+    }
+    return this.getWorkspaceRoots()[0]?.path;
   }
 
   /**
-   * Check if path is within workspace
+   * Check if path is within any workspace folder
    */
   public static isInWorkspace(filePath: string): boolean {
-    const workspaceRoot = this.getWorkspaceRoot();
-    if (!workspaceRoot) {
-      return false;
-    }
-    return this.isSubdirectory(workspaceRoot, filePath);
+    return this.getWorkspaceRootForPath(filePath) !== undefined;
   }
 
   /**
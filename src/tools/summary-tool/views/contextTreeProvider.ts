@@ -0,0 +1,347 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { CONTEXT_VIEW } from "../constants";
+import { ContextTreeNode, SummaryToolCommand } from "../models/types";
+import { ConfigManager } from "../services/configManager";
+import { ExclusionMatcher } from "../services/exclusionMatcher";
+import { FileTracker } from "../services/fileTracker";
+import { GitChangeTracker } from "../services/gitChangeTracker";
+import { GitignoreMatcher } from "../services/gitignoreMatcher";
+import { PathUtils } from "../utils/pathUtils";
+
+export class ContextTreeProvider
+  implements vscode.TreeDataProvider<ContextTreeNode>, vscode.Disposable
+{
+  private configManager: ConfigManager;
+  private ruleMatcher: ExclusionMatcher;
+  private gitignoreMatcher: GitignoreMatcher | null = null;
+  private fileTracker: FileTracker;
+  private gitChangeSources: string[] = [];
+  private refreshTimer: NodeJS.Timeout | undefined;
+  private changeEmitter = new vscode.EventEmitter<
+    ContextTreeNode | undefined | void
+  >();
+
+  public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor() {
+    this.configManager = ConfigManager.getInstance();
+    this.ruleMatcher = new ExclusionMatcher([]);
+    this.fileTracker = new FileTracker([]);
+    this.loadConfig();
+  }
+
+  public refresh(): void {
+    this.loadConfig();
+    this.changeEmitter.fire();
+  }
+
+  /**
+   * Refresh after a short delay, so bursts of created or deleted files
+   * only expand the pattern nodes once
+   */
+  public scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = undefined;
+      this.refresh();
+    }, CONTEXT_VIEW.REFRESH_DELAY_MS);
+  }
+
+  public dispose(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.changeEmitter.dispose();
+  }
+
+  private loadConfig(): void {
+    const config = this.configManager.getConfig();
+    const workspaceRoots = this.configManager.getWorkspaceRoots();
+
+    this.ruleMatcher = new ExclusionMatcher(config.rules);
+    this.gitChangeSources = config.gitChanges;
+    this.gitignoreMatcher = config.respectGitignore
+      ? new GitignoreMatcher(workspaceRoots.map((root) => root.path))
+      : null;
+    this.fileTracker = new FileTracker(
+      config.rules,
+      this.gitignoreMatcher,
+      config.gitChanges
+    );
+  }
+
+  public getTreeItem(node: ContextTreeNode): vscode.TreeItem {
+    const isExpandable =
+      node.kind === "trackedPattern" ||
+      node.kind === "gitChanges" ||
+      (!node.isFile && !node.excludedBy);
+    const item = new vscode.TreeItem(
+      node.label,
+      isExpandable
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None
+    );
+
+    if (node.path) {
+      item.resourceUri = vscode.Uri.file(node.path);
+    }
+
+    item.contextValue = this.getContextValue(node);
+
+    if (node.kind === "trackedPattern") {
+      item.iconPath = new vscode.ThemeIcon("filter");
+      item.description = "pattern";
+      item.tooltip = `Include rule: ${node.rule}`;
+    } else if (node.kind === "gitChanges") {
+      item.iconPath = new vscode.ThemeIcon("git-compare");
+      item.description = "git";
+      item.tooltip = `Git change source: ${node.gitSource}`;
+    } else if (node.kind === "missing") {
+      item.iconPath = new vscode.ThemeIcon(
+        "warning",
+        new vscode.ThemeColor("problemsWarningIcon.foreground")
+      );
+      item.description = "not found";
+      item.tooltip = `Include rule ${node.rule} does not match anything`;
+    } else if (node.excludedBy) {
+      // Excluded items are greyed out with the reason in the tooltip
+      item.iconPath = new vscode.ThemeIcon(
+        "circle-slash",
+        new vscode.ThemeColor("disabledForeground")
+      );
+      item.description = "excluded";
+      item.tooltip = `${node.relativePath}\nExcluded by ${node.excludedBy}`;
+    } else {
+      item.tooltip = node.rule
+        ? `${node.relativePath}\nTracked by ${node.rule}`
+        : node.relativePath;
+      if (node.kind === "trackedItem") {
+        item.description = node.relativePath;
+      }
+    }
+
+    if (node.isFile && node.path && !node.excludedBy) {
+      item.command = {
+        command: SummaryToolCommand.OPEN_FROM_VIEW,
+        title: "Open",
+        arguments: [node],
+      };
+    }
+
+    return item;
+  }
+
+  private getContextValue(node: ContextTreeNode): string {
+    if (node.kind !== "child") {
+      return node.isFile ? `${node.kind}.file` : node.kind;
+    }
+    if (node.excludedBy) {
+      return "excluded";
+    }
+    return node.isFile ? "child.file" : "child";
+  }
+
+  public async getChildren(node?: ContextTreeNode): Promise<ContextTreeNode[]> {
+    if (!node) {
+      return this.getTrackedNodes();
+    }
+
+    if (node.kind === "trackedPattern" && node.rule) {
+      const files = await this.fileTracker.expandPattern(
+        this.configManager.getWorkspaceRoots(),
+        node.label
+      );
+      return files.map((file) => ({
+        kind: "child",
+        label: file.relativePath,
+        path: file.path,
+        relativePath: file.relativePath,
+        isFile: true,
+      }));
+    }
+
+    if (node.kind === "gitChanges" && node.gitSource) {
+      return this.getGitChangeChildren(node.gitSource);
+    }
+
+    if (node.path && !node.isFile && !node.excludedBy) {
+      return this.getDirectoryChildren(node.path);
+    }
+
+    return [];
+  }
+
+  /**
+   * One node per include rule, in rule order, then one per git change
+   * source
+   */
+  private async getTrackedNodes(): Promise<ContextTreeNode[]> {
+    const workspaceRoots = this.configManager.getWorkspaceRoots();
+    const nodes: ContextTreeNode[] = [];
+
+    for (const includeRule of this.ruleMatcher.getRules()) {
+      if (includeRule.action !== "include") {
+        continue;
+      }
+
+      // Keep the rule as written so untracking can remove it
+      const { rule } = includeRule;
+      const pattern = PathUtils.toQualifiedPath(
+        includeRule.folder,
+        includeRule.pattern
+      );
+      const items = ExclusionMatcher.isRegexPattern(pattern)
+        ? []
+        : await this.fileTracker.resolveLiteralPattern(workspaceRoots, pattern);
+
+      if (items.length > 0) {
+        for (const item of items) {
+          nodes.push({
+            kind: "trackedItem",
+            label: path.basename(item.path),
+            path: item.path,
+            relativePath: item.relativePath,
+            isFile: item.isFile,
+            rule,
+            excludedBy: await this.getExclusionReason(
+              item.path,
+              item.relativePath,
+              !item.isFile
+            ),
+          });
+        }
+      } else if (ExclusionMatcher.isGlobPattern(pattern)) {
+        nodes.push({
+          kind: "trackedPattern",
+          label: pattern,
+          isFile: false,
+          rule,
+        });
+      } else {
+        nodes.push({
+          kind: "missing",
+          label: pattern,
+          isFile: false,
+          rule,
+        });
+      }
+    }
+
+    for (const source of this.gitChangeSources) {
+      nodes.push({
+        kind: "gitChanges",
+        label: GitChangeTracker.describeSource(source),
+        isFile: false,
+        gitSource: source,
+      });
+    }
+
+    return nodes;
+  }
+
+  /**
+   * Files of a git change source, keeping excluded ones so they can be
+   * shown greyed out
+   */
+  private async getGitChangeChildren(
+    source: string
+  ): Promise<ContextTreeNode[]> {
+    const files = await this.fileTracker.resolveGitChangeSource(
+      this.configManager.getWorkspaceRoots(),
+      source
+    );
+
+    const nodes: ContextTreeNode[] = [];
+    for (const file of files) {
+      nodes.push({
+        kind: "child",
+        label: file.relativePath,
+        path: file.path,
+        relativePath: file.relativePath,
+        isFile: true,
+        excludedBy: await this.getExclusionReason(
+          file.path,
+          file.relativePath,
+          false
+        ),
+      });
+    }
+    return nodes;
+  }
+
+  /**
+   * Children of a tracked folder, mirroring FileTracker.expandDirectory
+   * but keeping excluded items so they can be shown greyed out
+   */
+  private async getDirectoryChildren(
+    directoryPath: string
+  ): Promise<ContextTreeNode[]> {
+    const nodes: ContextTreeNode[] = [];
+
+    try {
+      const items = await fs.promises.readdir(directoryPath);
+
+      for (const item of items) {
+        const itemPath = path.join(directoryPath, item);
+        const stats = await PathUtils.getFileStats(itemPath);
+        if (!stats) {
+          continue;
+        }
+
+        const relativePath = PathUtils.getRelativePathFromWorkspace(itemPath);
+        nodes.push({
+          kind: "child",
+          label: item,
+          path: itemPath,
+          relativePath,
+          isFile: stats.isFile(),
+          excludedBy: await this.getExclusionReason(
+            itemPath,
+            relativePath,
+            stats.isDirectory()
+          ),
+        });
+      }
+    } catch (error) {
+      console.error(`Error reading directory ${directoryPath}:`, error);
+    }
+
+    // Folders first, then alphabetically
+    return nodes.sort((a, b) => {
+      if (a.isFile !== b.isFile) {
+        return a.isFile ? 1 : -1;
+      }
+      return a.label.localeCompare(b.label);
+    });
+  }
+
+  private async getExclusionReason(
+    itemPath: string,
+    relativePath: string,
+    isDirectory: boolean
+  ): Promise<string | undefined> {
+    const exclusionResult = this.ruleMatcher.shouldExclude(
+      relativePath,
+      isDirectory
+    );
+    if (exclusionResult.shouldExclude) {
+      return `rule ${exclusionResult.matchedPattern}`;
+    }
+
+    const gitignoreResult = await this.gitignoreMatcher?.match(
+      itemPath,
+      isDirectory
+    );
+    if (gitignoreResult?.ignored) {
+      return gitignoreResult.rule
+        ? `${gitignoreResult.rule.source} pattern ${gitignoreResult.rule.pattern}`
+        : ".git folder";
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,102 @@
+import * as vscode from "vscode";
+import { PKG_NAME, SummaryToolCommand, SummaryToolView } from "../models/types";
+import { ConfigManager } from "../services/configManager";
+import { ContextTreeProvider } from "./contextTreeProvider";
+import { ProfileStatusBar } from "./profileStatusBar";
+import { TrackingDecorationProvider } from "./trackingDecorationProvider";
+
+export class SummaryToolViews {
+  private contextTreeProvider: ContextTreeProvider;
+  private decorationProvider: TrackingDecorationProvider;
+  private profileStatusBar: ProfileStatusBar;
+
+  constructor() {
+    this.contextTreeProvider = new ContextTreeProvider();
+    this.decorationProvider = new TrackingDecorationProvider();
+    this.profileStatusBar = new ProfileStatusBar();
+  }
+
+  public registerViews(context: vscode.ExtensionContext): void {
+    // Tracked context tree in the AI Context sidebar
+    const contextTreeView = vscode.window.createTreeView(
+      SummaryToolView.CONTEXT,
+      {
+        treeDataProvider: this.contextTreeProvider,
+        showCollapseAll: true,
+      }
+    );
+
+    // Tracked, excluded and collapsed badges in the Explorer
+    const decorationRegistration = vscode.window.registerFileDecorationProvider(
+      this.decorationProvider
+    );
+    this.decorationProvider.scheduleRefresh();
+
+    // Active profile in the status bar
+    this.profileStatusBar.refresh();
+
+    const refreshCommand = vscode.commands.registerCommand(
+      SummaryToolCommand.REFRESH_CONTEXT_VIEW,
+      () => this.refreshAll()
+    );
+
+    // Keep the views in sync with settings and workspace folders
+    const configListener = vscode.workspace.onDidChangeConfiguration(
+      (event) => {
+        if (event.affectsConfiguration(PKG_NAME)) {
+          this.refreshAll();
+        }
+      }
+    );
+
+    const foldersListener = vscode.workspace.onDidChangeWorkspaceFolders(() =>
+      this.refreshAll()
+    );
+
+    // New and deleted files change which items a summary would include and
+    // which files the pattern nodes of the tree expand to
+    const fileWatcher = vscode.workspace.createFileSystemWatcher("**/*");
+    const scheduleRefresh = () => {
+      this.contextTreeProvider.scheduleRefresh();
+      this.decorationProvider.scheduleRefresh();
+    };
+    fileWatcher.onDidCreate(scheduleRefresh);
+    fileWatcher.onDidDelete(scheduleRefresh);
+
+    // Saved edits change which files git reports as changed
+    const saveListener = vscode.workspace.onDidSaveTextDocument(() => {
+      if (ConfigManager.getInstance().getConfig().gitChanges.length > 0) {
+        this.refreshAll();
+      }
+    });
+
+    // Register all views with the extension context
+    context.subscriptions.push(
+      this.contextTreeProvider,
+      contextTreeView,
+      this.decorationProvider,
+      decorationRegistration,
+      this.profileStatusBar,
+      refreshCommand,
+      configListener,
+      foldersListener,
+      fileWatcher,
+      saveListener
+    );
+  }
+
+  private refreshAll(): void {
+    this.contextTreeProvider.refresh();
+    this.decorationProvider.scheduleRefresh();
+    this.profileStatusBar.refresh();
+  }
+}
+
+// Export view registration helper
+export function registerSummaryToolViews(
+  context: vscode.ExtensionContext
+): SummaryToolViews {
+  const views = new SummaryToolViews();
+  views.registerViews(context);
+  return views;
+}
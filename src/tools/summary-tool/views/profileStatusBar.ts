@@ -0,0 +1,35 @@
+import * as vscode from "vscode";
+import { SummaryToolCommand } from "../models/types";
+import { ConfigManager } from "../services/configManager";
+
+/**
+ * Status bar entry showing the active context profile
+ */
+export class ProfileStatusBar implements vscode.Disposable {
+  private configManager: ConfigManager;
+  private statusBarItem: vscode.StatusBarItem;
+
+  constructor() {
+    this.configManager = ConfigManager.getInstance();
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left
+    );
+    this.statusBarItem.command = SummaryToolCommand.SWITCH_PROFILE;
+  }
+
+  public refresh(): void {
+    if (this.configManager.getWorkspaceRoots().length === 0) {
+      this.statusBarItem.hide();
+      return;
+    }
+
+    const activeProfile = this.configManager.getActiveProfile();
+    this.statusBarItem.text = `$(layers) ${activeProfile}`;
+    this.statusBarItem.tooltip = `AI context profile: ${activeProfile}\nClick to switch profile`;
+    this.statusBarItem.show();
+  }
+
+  public dispose(): void {
+    this.statusBarItem.dispose();
+  }
+}
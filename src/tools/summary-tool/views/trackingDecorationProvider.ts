@@ -0,0 +1,170 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { DECORATIONS } from "../constants";
+import { ConfigManager } from "../services/configManager";
+import { ExclusionMatcher } from "../services/exclusionMatcher";
+import { FileTracker } from "../services/fileTracker";
+import { GitignoreMatcher } from "../services/gitignoreMatcher";
+import { PathUtils } from "../utils/pathUtils";
+
+export class TrackingDecorationProvider
+  implements vscode.FileDecorationProvider, vscode.Disposable
+{
+  private configManager: ConfigManager;
+  private ruleMatcher: ExclusionMatcher;
+  private gitignoreMatcher: GitignoreMatcher | null = null;
+  // Files a summary would include, and the folders leading to them
+  private includedFiles: Set<string> = new Set();
+  private includedFolders: Set<string> = new Set();
+  private refreshTimer: NodeJS.Timeout | undefined;
+  private changeEmitter = new vscode.EventEmitter<
+    vscode.Uri | vscode.Uri[] | undefined
+  >();
+
+  public readonly onDidChangeFileDecorations = this.changeEmitter.event;
+
+  constructor() {
+    this.configManager = ConfigManager.getInstance();
+    this.ruleMatcher = new ExclusionMatcher([]);
+  }
+
+  /**
+   * Recompute the tracked set after a short delay, so bursts of file or
+   * settings changes only trigger one walk
+   */
+  public scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = undefined;
+      void this.refresh();
+    }, DECORATIONS.REFRESH_DELAY_MS);
+  }
+
+  public async refresh(): Promise<void> {
+    try {
+      const config = this.configManager.getConfig();
+      const workspaceRoots = this.configManager.getWorkspaceRoots();
+
+      this.ruleMatcher = new ExclusionMatcher(config.rules);
+      this.gitignoreMatcher = config.respectGitignore
+        ? new GitignoreMatcher(workspaceRoots.map((root) => root.path))
+        : null;
+
+      // Same pipeline as a summary run, so badges match the output
+      const fileTracker = new FileTracker(
+        config.rules,
+        this.gitignoreMatcher,
+        config.gitChanges
+      );
+      const trackedItems = await fileTracker.getTrackedItems(workspaceRoots);
+      const files = await fileTracker.expandTrackedItems(trackedItems);
+
+      const rootFolders = trackedItems
+        .filter((item) => !item.isFile)
+        .map((item) => item.path);
+      const includedFiles = new Set<string>();
+      const includedFolders = new Set<string>(rootFolders);
+
+      for (const file of files) {
+        includedFiles.add(file.path);
+
+        // Mark folders between the file and its tracked folder
+        const rootFolder = rootFolders.find((folder) =>
+          PathUtils.isSubdirectory(folder, file.path)
+        );
+        if (!rootFolder) {
+          continue;
+        }
+        let folder = path.dirname(file.path);
+        while (PathUtils.isSubdirectory(rootFolder, folder)) {
+          includedFolders.add(folder);
+          if (folder === rootFolder) {
+            break;
+          }
+          folder = path.dirname(folder);
+        }
+      }
+
+      this.includedFiles = includedFiles;
+      this.includedFolders = includedFolders;
+      this.changeEmitter.fire(undefined);
+    } catch (error) {
+      console.error("Error refreshing tracking decorations:", error);
+    }
+  }
+
+  public async provideFileDecoration(
+    uri: vscode.Uri
+  ): Promise<vscode.FileDecoration | undefined> {
+    if (uri.scheme !== "file" || !PathUtils.isInWorkspace(uri.fsPath)) {
+      return undefined;
+    }
+
+    const itemPath = uri.fsPath;
+    const relativePath = PathUtils.getRelativePathFromWorkspace(itemPath);
+    if (!relativePath) {
+      return undefined;
+    }
+
+    if (
+      this.includedFiles.has(itemPath) ||
+      this.includedFolders.has(itemPath)
+    ) {
+      return new vscode.FileDecoration(
+        DECORATIONS.TRACKED_BADGE,
+        "Included in AI context",
+        new vscode.ThemeColor("gitDecoration.addedResourceForeground")
+      );
+    }
+
+    const exclusionResult = this.ruleMatcher.shouldExclude(relativePath);
+    if (exclusionResult.shouldExclude) {
+      return new vscode.FileDecoration(
+        undefined,
+        `Excluded from AI context by ${exclusionResult.matchedPattern}`,
+        new vscode.ThemeColor("gitDecoration.ignoredResourceForeground")
+      );
+    }
+
+    const stats = await PathUtils.getFileStats(itemPath);
+    if (!stats) {
+      return undefined;
+    }
+
+    const gitignoreResult = await this.gitignoreMatcher?.match(
+      itemPath,
+      stats.isDirectory()
+    );
+    if (gitignoreResult?.ignored) {
+      return new vscode.FileDecoration(
+        undefined,
+        "Excluded from AI context by " +
+          (gitignoreResult.rule
+            ? `${gitignoreResult.rule.source} pattern ${gitignoreResult.rule.pattern}`
+            : "the .git folder"),
+        new vscode.ThemeColor("gitDecoration.ignoredResourceForeground")
+      );
+    }
+
+    if (stats.isDirectory()) {
+      const collapseResult = this.ruleMatcher.shouldCollapse(relativePath);
+      if (collapseResult.shouldExclude) {
+        return new vscode.FileDecoration(
+          DECORATIONS.COLLAPSED_BADGE,
+          `Collapsed in structure summary by ${collapseResult.matchedPattern}`
+        );
+      }
+    }
+
+    return undefined;
+  }
+
+  public dispose(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.changeEmitter.dispose();
+  }
+}
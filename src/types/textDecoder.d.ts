@@ -0,0 +1,7 @@
+// The declarations of gpt-tokenizer use the DOM TextDecoder type, which
+// the Node types only declare as a global value
+declare global {
+  type TextDecoder = import("util").TextDecoder;
+}
+
+export {};